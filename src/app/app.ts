@@ -1,114 +1,100 @@
-import { Component, signal, ViewChild, OnInit } from '@angular/core';
+import { Component, signal, ViewChild, OnInit, AfterViewInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { RouterOutlet } from '@angular/router';
 import { MapContainerComponent } from './components/map-container/map-container.component';
-import { AnimationSequence } from './components/map-container/services/animation-controller.service';
+import { LocatorMapComponent } from './components/locator-map/locator-map.component';
 import { FeatureCollection } from 'geojson';
 // import worldData from './data/world-110m.json';
 import worldData from './data/world.json';
+import citiesData from './data/cities.json';
+import routesData from './data/routes.json';
+import continentTourStory from './data/stories/continent-tour.json';
+import worldCitiesStory from './data/stories/world-cities.json';
+import flightRoutesStory from './data/stories/flight-routes.json';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, CommonModule, MapContainerComponent],
+  imports: [RouterOutlet, CommonModule, MapContainerComponent, LocatorMapComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss',
 })
-export class App implements OnInit {
+export class App implements OnInit, AfterViewInit {
   @ViewChild(MapContainerComponent) mapComponent?: MapContainerComponent;
 
   protected readonly title = signal('D3 Animated Map Reference');
   protected readonly subtitle = signal('Demonstrating proper projection with smooth animations');
   protected readonly geoData = signal<FeatureCollection>(worldData as FeatureCollection);
   protected readonly currentFps = signal<number>(0);
+  protected readonly isGlobe = signal(false);
 
   ngOnInit(): void {
     // Data will be loaded on component initialization
   }
 
+  ngAfterViewInit(): void {
+    // Flight routes as great-circle arcs, sized by passengers, with particles moving along them
+    this.mapComponent?.addLayer({
+      id: 'routes',
+      type: 'flows',
+      data: routesData as FeatureCollection,
+      style: { stroke: '#3182bd' },
+      flow: { width: { property: 'passengers', maxWidth: 5, minWidth: 1 }, particles: true },
+      opacity: 0.8,
+    });
+
+    // City markers sized by population; nearby cities merge into clusters when zoomed out
+    this.mapComponent?.addLayer({
+      id: 'cities',
+      type: 'points',
+      data: citiesData as FeatureCollection,
+      symbol: { radius: { property: 'population', maxRadius: 12 } },
+      style: { fill: '#e6550d', stroke: '#fff', strokeWidth: 1, fillOpacity: 0.8 },
+      cluster: { distance: 30 },
+    });
+
+    // City names above the markers; the largest cities win where names would overlap
+    this.mapComponent?.addLayer({
+      id: 'city-labels',
+      type: 'labels',
+      data: citiesData as FeatureCollection,
+      label: {
+        text: 'name',
+        priority: 'population',
+        font: '600 11px sans-serif',
+        offset: [0, -16],
+      },
+      interactive: false,
+    });
+  }
+
   /**
-   * Demo animation sequence: Tour of major cities
+   * Demo animation sequence: Tour of major cities (fly-to camera path between hops)
    */
   playWorldTour(): void {
-    const sequence: AnimationSequence = {
-      steps: [
-        {
-          extent: { center: [-74.006, 40.7128], scale: 4 },
-          duration: 1500,
-          label: 'New York',
-        },
-        {
-          extent: { center: [-0.1276, 51.5074], scale: 4 },
-          duration: 1500,
-          label: 'London',
-        },
-        {
-          extent: { center: [139.6917, 35.6895], scale: 4 },
-          duration: 1500,
-          label: 'Tokyo',
-        },
-        {
-          extent: { center: [151.2093, -33.8688], scale: 4 },
-          duration: 1500,
-          label: 'Sydney',
-        },
-        {
-          extent: { center: [0, 0], scale: 1 },
-          duration: 1500,
-          label: 'World View',
-        },
-      ],
-      loop: false,
-    };
-
-    this.mapComponent?.playAnimation(sequence);
+    this.mapComponent?.playStory(worldCitiesStory);
   }
 
   /**
    * Demo animation: Zoom to different continents
    */
   playContinentTour(): void {
-    const sequence: AnimationSequence = {
-      steps: [
-        {
-          extent: { center: [-95, 37], scale: 2.5 },
-          duration: 1200,
-          label: 'North America',
-        },
-        {
-          extent: { center: [-60, -15], scale: 2.5 },
-          duration: 1200,
-          label: 'South America',
-        },
-        {
-          extent: { center: [15, 50], scale: 3 },
-          duration: 1200,
-          label: 'Europe',
-        },
-        {
-          extent: { center: [20, 0], scale: 2.5 },
-          duration: 1200,
-          label: 'Africa',
-        },
-        {
-          extent: { center: [90, 35], scale: 2 },
-          duration: 1200,
-          label: 'Asia',
-        },
-        {
-          extent: { center: [135, -25], scale: 3.5 },
-          duration: 1200,
-          label: 'Australia',
-        },
-        {
-          extent: { center: [0, 20], scale: 1 },
-          duration: 1500,
-          label: 'World View',
-        },
-      ],
-      loop: false,
-    };
+    this.mapComponent?.playStory(continentTourStory);
+  }
 
-    this.mapComponent?.playAnimation(sequence);
+  /**
+   * Demo layer animation: flight routes drawn on while the camera pulls back
+   */
+  playFlightRoutes(): void {
+    this.mapComponent?.playStory(flightRoutesStory);
+  }
+
+  /**
+   * Demo projection transition: morph between the flat map and a globe
+   */
+  toggleGlobe(): void {
+    const globe = !this.isGlobe();
+    this.mapComponent?.morphToProjection(globe ? 'orthographic' : 'equirectangular', 2000);
+    this.isGlobe.set(globe);
   }
 
   stopAnimation(): void {
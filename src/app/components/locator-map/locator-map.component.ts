@@ -0,0 +1,226 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  computed,
+  effect,
+  inject,
+  input,
+  signal,
+  untracked,
+  viewChild,
+} from '@angular/core';
+import * as d3 from 'd3';
+import { FeatureCollection } from 'geojson';
+import {
+  FitTarget,
+  LayerStyle,
+  LocatorOutlineStyle,
+  ProjectionInput,
+  ProjectionOptions,
+} from '../map-container/models/map.types';
+import { MapContainerComponent } from '../map-container/map-container.component';
+import { boundsToGeometry } from '../map-container/services/geo-zoom.service';
+import { HitTestService } from '../map-container/services/hit-test.service';
+import { MAP_INSTANCE_PROVIDERS } from '../map-container/services/map-instance.providers';
+import { MapRendererService, RenderContext } from '../map-container/services/map-renderer.service';
+import { MapScaleService } from '../map-container/services/map-scale.service';
+import { ProjectionRegistryService } from '../map-container/services/projection-registry.service';
+import {
+  DEFAULT_OCEAN_STYLE,
+  ReferenceLayerService,
+} from '../map-container/services/reference-layer.service';
+import sampleGeoData from '../map-container/sampleData/world.json';
+
+const DEFAULT_LAND_STYLE: LayerStyle = { fill: '#bbb', stroke: '#fff', strokeWidth: 0.3 };
+
+const DEFAULT_OUTLINE_STYLE: Required<LocatorOutlineStyle> = {
+  fill: '#d62728',
+  fillOpacity: 0.15,
+  stroke: '#d62728',
+  strokeWidth: 1.5,
+};
+
+// Padding around a configured region, in pixels
+const REGION_PADDING = 4;
+
+/**
+ * Locator Map
+ * A small overview of the world (or a region) outlining the area shown by the main map.
+ * The outline is recomputed on every projection change of the main map, so it follows
+ * drags and animateTo(); clicking or dragging in the locator pans the main map.
+ */
+@Component({
+  selector: 'app-locator-map',
+  standalone: true,
+  templateUrl: './locator-map.component.html',
+  styleUrl: './locator-map.component.scss',
+  // Renders with its own renderer; the main map keeps its state
+  providers: MAP_INSTANCE_PROVIDERS,
+})
+export class LocatorMapComponent implements AfterViewInit {
+  readonly mapContainer = viewChild<ElementRef<HTMLDivElement>>('mapContainer');
+
+  // The map whose viewport is outlined and panned
+  readonly map = input.required<MapContainerComponent>();
+  readonly width = input(240);
+  readonly height = input(120);
+  readonly geoData = input<FeatureCollection>(sampleGeoData as FeatureCollection);
+  readonly geoStyle = input<LayerStyle>(DEFAULT_LAND_STYLE);
+  readonly oceanStyle = input<LayerStyle>(DEFAULT_OCEAN_STYLE);
+  readonly projection = input<ProjectionInput>('naturalEarth');
+  readonly projectionOptions = input<ProjectionOptions>({});
+  // Area shown by the locator (default: the whole world)
+  readonly region = input<FitTarget | undefined>(undefined);
+  readonly outlineStyle = input<LocatorOutlineStyle>({});
+
+  // The main map's viewport as SVG path data in the locator
+  protected readonly outlinePath = signal<string | undefined>(undefined);
+  protected readonly outline = computed(() => ({
+    ...DEFAULT_OUTLINE_STYLE,
+    ...this.outlineStyle(),
+  }));
+
+  private locatorProjection?: d3.GeoProjection;
+  private renderContext?: RenderContext;
+  private dragging = false;
+
+  private hitTester = inject(HitTestService);
+  private mapRenderer = inject(MapRendererService);
+  private mapScale = inject(MapScaleService);
+  private projectionRegistry = inject(ProjectionRegistryService);
+  private referenceLayers = inject(ReferenceLayerService);
+
+  constructor() {
+    // Redraw when the inputs change (after the first render)
+    effect(() => {
+      this.geoData();
+      this.geoStyle();
+      this.oceanStyle();
+      this.projection();
+      this.projectionOptions();
+      this.region();
+      untracked(() => {
+        if (this.renderContext) {
+          this.locatorProjection = this.createProjection();
+          this.mapRenderer.updateProjection(this.renderContext, this.locatorProjection);
+          this.render();
+        }
+      });
+    });
+
+    // Follow the main map: drags, zooms, animations and projection changes
+    effect((onCleanup) => {
+      const subscription = this.map().geoZoom.onProjectionChange.subscribe(() => {
+        this.updateOutline();
+      });
+      untracked(() => this.updateOutline());
+      onCleanup(() => subscription.unsubscribe());
+    });
+  }
+
+  ngAfterViewInit(): void {
+    const container = this.mapContainer();
+    if (!container) return;
+
+    this.locatorProjection = this.createProjection();
+    this.renderContext = this.mapRenderer.initSvgRenderer(
+      container.nativeElement,
+      this.width(),
+      this.height(),
+      this.locatorProjection
+    );
+
+    this.render();
+  }
+
+  /**
+   * The locator projection, fitted to the region or the whole sphere
+   */
+  private createProjection(): d3.GeoProjection {
+    const { projection } = this.projectionRegistry.create(
+      this.projection(),
+      this.width(),
+      this.height(),
+      { fit: true, ...this.projectionOptions() }
+    );
+
+    const region = this.region();
+    const object = region?.bounds ? boundsToGeometry(region.bounds) : region?.geometry;
+    if (object) {
+      const padding = region?.padding ?? REGION_PADDING;
+      projection.fitExtent(
+        [
+          [padding, padding],
+          [this.width() - padding, this.height() - padding],
+        ],
+        object
+      );
+    }
+    return projection;
+  }
+
+  /**
+   * Draw the ocean and land, then the outline
+   */
+  private render(): void {
+    if (!this.renderContext) return;
+
+    this.mapRenderer.renderLayers(this.renderContext, [
+      {
+        id: 'ocean',
+        data: this.referenceLayers.sphere(),
+        style: this.oceanStyle(),
+        interactive: false,
+      },
+      { id: 'land', data: this.geoData(), style: this.geoStyle(), interactive: false },
+    ]);
+    this.updateOutline();
+  }
+
+  /**
+   * Outline the main map's viewport, inverted through its projection
+   */
+  private updateOutline(): void {
+    const { geoZoom } = this.map();
+    const main = geoZoom.getProjection();
+    const outline = main && this.mapScale.viewportOutline(main, geoZoom.getViewportSize());
+    this.outlinePath.set(
+      outline && this.locatorProjection
+        ? (d3.geoPath(this.locatorProjection)(outline) ?? undefined)
+        : undefined
+    );
+  }
+
+  /**
+   * Start panning the main map to the pointer
+   */
+  protected onPointerDown(event: MouseEvent): void {
+    event.preventDefault();
+    this.dragging = true;
+    this.panTo(event);
+  }
+
+  protected onPointerMove(event: MouseEvent): void {
+    if (this.dragging) {
+      this.panTo(event);
+    }
+  }
+
+  protected onPointerUp(): void {
+    this.dragging = false;
+  }
+
+  /**
+   * Center the main map on the location under the pointer
+   */
+  private panTo(event: MouseEvent): void {
+    if (!this.locatorProjection) return;
+
+    const point = d3.pointer(event, this.mapContainer()?.nativeElement);
+    const coordinates = this.hitTester.invert(this.locatorProjection, point);
+    if (coordinates) {
+      this.map().geoZoom.setCenter(coordinates);
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature, FeatureCollection } from 'geojson';
+import { MapContainerComponent } from './map-container.component';
+import { ZoomEvent } from './models/map.types';
+import {
+  AnimationScheduler,
+  VirtualAnimationScheduler,
+} from './services/animation-scheduler.service';
+import { MapRendererService } from './services/map-renderer.service';
+
+const squares: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    {
+      type: 'Feature',
+      properties: { name: 'West' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[-40, -10], [-40, 10], [-20, 10], [-20, -10], [-40, -10]]],
+      },
+    },
+    {
+      type: 'Feature',
+      properties: { name: 'East', population: 1200 },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [[[20, -10], [20, 10], [40, 10], [40, -10], [20, -10]]],
+      },
+    },
+  ],
+};
+const [west, east] = squares.features;
+// The map's default projection
+const world = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+
+describe('MapContainerComponent', () => {
+  let scheduler: VirtualAnimationScheduler;
+  let fixture: ComponentFixture<MapContainerComponent>;
+  let map: MapContainerComponent;
+
+  beforeEach(() => {
+    scheduler = new VirtualAnimationScheduler();
+    TestBed.configureTestingModule({
+      imports: [MapContainerComponent],
+      providers: [{ provide: AnimationScheduler, useValue: scheduler }],
+    });
+    fixture = TestBed.createComponent(MapContainerComponent);
+    fixture.componentRef.setInput('geoData', squares);
+    fixture.componentRef.setInput('tissotGeoJson', squares);
+    fixture.componentRef.setInput('showTissot', true);
+    fixture.detectChanges();
+    map = fixture.componentInstance;
+  });
+
+  const drawn = (id: string) =>
+    (fixture.nativeElement as HTMLElement).querySelector(`.map-layer-${id}`) !== null;
+
+  // Dispatch a pointer event at the center of a base layer feature, or at the center of the
+  // map (off every feature). jsdom lays nothing out, so client and map coordinates coincide.
+  const pointAt = (type: string, feature?: Feature) => {
+    const paths = (fixture.nativeElement as HTMLElement).querySelectorAll<SVGPathElement>(
+      '.map-layer-base path.geo-feature'
+    );
+    const path = [...paths].find((element) => d3.select(element).datum() === feature);
+    const target = path ?? (fixture.nativeElement as HTMLElement).querySelector('.map-container')!;
+    const [clientX, clientY] = feature ? world(d3.geoCentroid(feature))! : [480, 300];
+    target.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX, clientY }));
+    fixture.detectChanges();
+  };
+
+  it('should hand layer visibility back to the inputs when a sequence is stopped', () => {
+    map.playAnimation({
+      steps: [{ extent: { center: [0, 0], scale: 2 }, duration: 1000, layers: { tissot: false } }],
+    });
+    scheduler.advance(500);
+    fixture.detectChanges();
+    expect(drawn('tissot')).toBe(false);
+
+    map.stopAnimation();
+    fixture.detectChanges();
+    expect(drawn('tissot')).toBe(true);
+  });
+
+  it('should emit zoomChange through a camera transition up to its end', () => {
+    const events: ZoomEvent[] = [];
+    map.zoomChange.subscribe((event) => events.push(event));
+
+    map.panTo([30, 0], 1000);
+    scheduler.advance(500);
+    const moving = events.length;
+    expect(moving).toBeGreaterThan(0);
+    expect(events[moving - 1].center[0]).toBeGreaterThan(0);
+    expect(events[moving - 1].center[0]).toBeLessThan(30);
+
+    scheduler.flush();
+    const last = events[events.length - 1];
+    expect(events.length).toBeGreaterThan(moving);
+    expect(last.center[0]).toBeCloseTo(30, 6);
+    expect(last.scale).toBeCloseTo(1, 6);
+    expect(last.translate).toEqual([480, 300]);
+  });
+
+  it('should report whether zoomToFeature found the feature', () => {
+    expect(map.zoomToFeature('Nowhere')).toBe(false);
+    expect(map.zoomToFeature('West')).toBe(true);
+  });
+
+  it('should draw flows in full again when a draw-on step is stopped', () => {
+    map.addLayer({
+      id: 'routes',
+      type: 'flows',
+      data: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: {},
+            geometry: { type: 'LineString', coordinates: [[-30, 0], [30, 20]] },
+          },
+        ],
+      },
+    });
+    const arcs = () => (fixture.nativeElement as HTMLElement).querySelectorAll('path.flow');
+    expect(arcs().length).toBe(1);
+
+    map.playAnimation({
+      steps: [{ extent: { center: [0, 0], scale: 1 }, duration: 1000, draw: ['routes'] }],
+    });
+    expect(arcs().length).toBe(0);
+
+    map.stopAnimation();
+    fixture.detectChanges();
+    expect(arcs().length).toBe(1);
+  });
+
+  it('should move only the flow particles every frame, until their layer is removed', () => {
+    const renderer = fixture.debugElement.injector.get(MapRendererService);
+    const element = fixture.nativeElement as HTMLElement;
+    map.addLayer({
+      id: 'routes',
+      type: 'flows',
+      flow: { particles: { count: 1, duration: 1000 } },
+      data: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: {},
+            geometry: { type: 'LineString', coordinates: [[-30, 0], [30, 20]] },
+          },
+        ],
+      },
+    });
+    const arc = element.querySelector('path.flow');
+    const particle = () => element.querySelector('circle.flow-particle')?.getAttribute('cx');
+    const renderLayers = vi.spyOn(renderer, 'renderLayers');
+
+    const start = particle();
+    scheduler.advance(100);
+    expect(particle()).not.toBe(start);
+    expect(element.querySelector('path.flow')).toBe(arc);
+    expect(renderLayers).not.toHaveBeenCalled();
+
+    const renderParticles = vi.spyOn(renderer, 'renderParticles');
+    map.removeLayer('routes');
+    scheduler.advance(100);
+    expect(renderParticles).not.toHaveBeenCalled();
+  });
+
+  it('should select one feature at a time, or toggle several in multiple mode', () => {
+    pointAt('click', west);
+    expect(map.selectedFeatures()).toEqual([west]);
+    pointAt('click', east);
+    expect(map.selectedFeatures()).toEqual([east]);
+    pointAt('click', east);
+    expect(map.selectedFeatures()).toEqual([]);
+
+    fixture.componentRef.setInput('selectionMode', 'multiple');
+    pointAt('click', west);
+    pointAt('click', east);
+    expect(map.selectedFeatures()).toEqual([west, east]);
+    pointAt('click', west);
+    expect(map.selectedFeatures()).toEqual([east]);
+    pointAt('click');
+    expect(map.selectedFeatures()).toEqual([]);
+
+    // A selection bound from outside is toggled like one made by clicking
+    fixture.componentRef.setInput('selectedFeatures', [west, east]);
+    pointAt('click', east);
+    expect(map.selectedFeatures()).toEqual([west]);
+  });
+
+  it('should fill tooltip templates, leaving missing properties empty', () => {
+    const tooltip = () =>
+      (fixture.nativeElement as HTMLElement).querySelector('.map-tooltip')?.textContent?.trim();
+    fixture.componentRef.setInput('tooltip', '{name}: { population }');
+
+    pointAt('mousemove', east);
+    expect(tooltip()).toBe('East: 1200');
+    pointAt('mousemove', west);
+    expect(tooltip()).toBe('West:');
+    pointAt('mousemove');
+    expect(tooltip()).toBeUndefined();
+
+    // A pinned tooltip stays put while the pointer moves over features
+    map.showTooltip([0, 0], 'Pinned');
+    pointAt('mousemove', east);
+    expect(tooltip()).toBe('Pinned');
+  });
+});
@@ -3,9 +3,12 @@ import {
   ElementRef,
   viewChild,
   input,
+  model,
   output,
   signal,
+  computed,
   effect,
+  untracked,
   AfterViewInit,
   DestroyRef,
   inject,
@@ -13,14 +16,60 @@ import {
 import { CommonModule } from '@angular/common';
 import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import * as d3 from 'd3';
-import { FeatureCollection } from 'geojson';
+import { Feature, FeatureCollection } from 'geojson';
 import { MapRendererService, RenderContext } from './services/map-renderer.service';
 import { GeoZoomService } from './services/geo-zoom.service';
 import {
   AnimationControllerService,
+  AnimationProgress,
   AnimationSequence,
 } from './services/animation-controller.service';
-import { RenderMode, ZoomEvent } from './models/map.types';
+import {
+  FrameExportOptions,
+  FrameExportResult,
+  FrameExportService,
+} from './services/frame-export.service';
+import { AnimationScheduler } from './services/animation-scheduler.service';
+import { FlowLayerService } from './services/flow-layer.service';
+import { HitTestService } from './services/hit-test.service';
+import { LayerManagerService } from './services/layer-manager.service';
+import { MAP_INSTANCE_PROVIDERS } from './services/map-instance.providers';
+import { MapLinkService } from './services/map-link.service';
+import { MapScaleService } from './services/map-scale.service';
+import { PointLayerService, isClusterFeature } from './services/point-layer.service';
+import {
+  ProjectionRegistryService,
+  ResolvedProjection,
+} from './services/projection-registry.service';
+import { RasterTileService } from './services/raster-tile.service';
+import {
+  DEFAULT_OCEAN_STYLE,
+  DEFAULT_SPHERE_STYLE,
+  ReferenceLayerService,
+} from './services/reference-layer.service';
+import { LoadedStory, StoryLoaderService } from './services/story-loader.service';
+import { VectorTileService } from './services/vector-tile.service';
+import {
+  FeatureEvent,
+  FitTarget,
+  FlyToOptions,
+  GeoBounds,
+  GraticuleOptions,
+  HighlightStyle,
+  LayerStyle,
+  MapExtent,
+  MapLayer,
+  MapMode,
+  ProjectionInput,
+  ProjectionOptions,
+  RenderMode,
+  ScaleBar,
+  ScaleBarOptions,
+  SelectionMode,
+  SlippyMapOptions,
+  TooltipTemplate,
+  ZoomEvent,
+} from './models/map.types';
 import sampleGeoData from './sampleData/world.json';
 import sampleTissot1000 from './sampleData/tissot_1000km_20deg.json';
 import sampleTissotFiltered from './sampleData/tissot_1000km_20deg_filtered.json';
@@ -29,10 +78,46 @@ import sampleTissotTest from './sampleData/tissot_test_single.json';
 import sampleTissotTest10 from './sampleData/tissot_test_10.json';
 import sampleTissotTestFirst from './sampleData/tissot_test_first.json';
 
+// Tissot indicatrix overlay style
+// IMPORTANT: Tissot circle polygons MUST have counter-clockwise winding order
+// for SVG fills to render correctly. Clockwise winding causes SVG to fill
+// the EXTERIOR (entire map except circles), creating opaque rectangles.
+// See: src/app/components/map-container/sampleData/README.md
+const TISSOT_STYLE: LayerStyle = { fill: 'coral', stroke: 'none', fillOpacity: 0.25 };
+
+const DEFAULT_HIGHLIGHT_STYLE: HighlightStyle = {
+  hover: { fill: 'none', stroke: '#222', strokeWidth: 1.5 },
+  selected: { fill: 'none', stroke: '#d62728', strokeWidth: 2 },
+};
+
+// Highlights are drawn as extra layers above every other layer
+const SELECTION_LAYER = '_selection';
+const HOVER_LAYER = '_hover';
+
+// Pointer movement in pixels between press and release that still counts as a click, not a drag
+const CLICK_TOLERANCE = 3;
+
+interface TooltipAnchor {
+  coordinates: [number, number]; // [longitude, latitude]
+  content: string;
+  pinned: boolean; // shown with showTooltip(); hover does not replace it
+}
+
+/**
+ * Fill {property} placeholders from the feature's properties (missing values become '')
+ */
+function formatTooltip(template: string, { feature }: FeatureEvent): string {
+  return template.replace(/\{\s*([^{}]+?)\s*\}/g, (_, key: string) =>
+    String(feature.properties?.[key] ?? '')
+  );
+}
+
 @Component({
   selector: 'app-map-container',
   standalone: true,
   imports: [CommonModule],
+  // Each map owns its projection, layers and animations
+  providers: MAP_INSTANCE_PROVIDERS,
   templateUrl: './map-container.component.html',
   styleUrl: './map-container.component.scss',
 })
@@ -42,25 +127,104 @@ export class MapContainerComponent implements AfterViewInit {
   readonly width = input(960);
   readonly height = input(600);
   readonly renderMode = input<RenderMode>('svg');
+  readonly projection = input<ProjectionInput>('equirectangular');
+  readonly projectionOptions = input<ProjectionOptions>({});
+  // 'slippy' shows a north-up Web Mercator over raster tiles; the projection inputs are ignored
+  readonly mapMode = input<MapMode>('projected');
+  // Tiles of the slippy map: a local directory or server (there is no default tile server)
+  readonly slippyOptions = input<SlippyMapOptions | undefined>(undefined);
   readonly geoData = input<FeatureCollection>(sampleGeoData as FeatureCollection);
+  // Style of the base layer; constants, style functions or a ColorScale for choropleths
+  readonly geoStyle = input<LayerStyle | undefined>(undefined);
   readonly showTissot = input(false);
   readonly tissotGeoJson = input<FeatureCollection | undefined>(undefined);
+  // Reference layers: ocean under everything, graticule above it, outline of the sphere on top
+  readonly showOcean = input(false);
+  readonly oceanStyle = input<LayerStyle>(DEFAULT_OCEAN_STYLE);
+  readonly showGraticule = input(false);
+  readonly graticuleOptions = input<GraticuleOptions>({});
+  readonly showSphere = input(false);
+  readonly sphereStyle = input<LayerStyle>(DEFAULT_SPHERE_STYLE);
+  // Scale bar and north arrow over the map, measured in the live projection
+  readonly showScaleBar = input(false);
+  readonly scaleBarOptions = input<ScaleBarOptions>({});
+  readonly showNorthArrow = input(false);
+  // Maps with the same link group move together (same center and ground resolution)
+  readonly linkGroup = input<string | undefined>(undefined);
+  // Tooltip shown over hovered features, e.g. '{name}: {population}'
+  readonly tooltip = input<TooltipTemplate | undefined>(undefined);
+  readonly selectionMode = input<SelectionMode>('single');
+  readonly highlightStyle = input<HighlightStyle>(DEFAULT_HIGHLIGHT_STYLE);
+  // Selected features, compared by reference; clicks update it (two-way [(selectedFeatures)])
+  readonly selectedFeatures = model<Feature[]>([]);
 
+  // Emitted on every change of view, including each frame of camera transitions and morphs
   readonly zoomChange = output<ZoomEvent>();
   readonly fpsUpdate = output<number>();
+  readonly animationProgress = output<AnimationProgress>();
+  // Emitted on every pointer move over a feature, and when the map moves under the pointer
+  readonly featureHover = output<FeatureEvent>();
+  readonly featureClick = output<FeatureEvent>();
+  // Emitted with the last hover payload when the pointer leaves a feature
+  readonly featureLeave = output<FeatureEvent>();
 
   // Signals for reactive UI
   protected readonly currentFps = signal<number>(0);
   protected readonly isAnimating = signal<boolean>(false);
   protected readonly currentStep = signal<string>('');
+  protected readonly currentCaption = signal<string | undefined>(undefined);
+  // Layer visibility set by animation steps; overrides the inputs (e.g. showTissot)
+  protected readonly layerVisibility = signal<Record<string, boolean>>({});
+  // Draw-on progress of flows layers set by animation steps; overrides FlowOptions.progress
+  protected readonly layerProgress = signal<Record<string, number>>({});
   protected readonly geoDataSignal = signal<FeatureCollection | undefined>(undefined);
+  // Tooltip anchored to a geographic coordinate, and its position in the current projection
+  protected readonly tooltipAnchor = signal<TooltipAnchor | undefined>(undefined);
+  protected readonly tooltipPosition = signal<[number, number] | undefined>(undefined);
+  // Scale bar and direction of north (degrees clockwise from up) for the current view
+  protected readonly scaleBar = signal<ScaleBar | undefined>(undefined);
+  protected readonly northAngle = signal<number | undefined>(undefined);
+  // Credit for the slippy map's tiles
+  protected readonly attribution = computed(() =>
+    this.mapMode() === 'slippy' ? this.slippyOptions()?.attribution : undefined
+  );
+  // Set once the projection and renderer exist
+  private readonly initialized = signal(false);
 
-  private projection?: d3.GeoProjection;
+  private activeProjection?: d3.GeoProjection;
+  private appliedProjection?: [MapMode, ProjectionInput, ProjectionOptions];
   private renderContext?: RenderContext;
 
+  // Pointer over the map, kept so hover can be re-tested when the map moves under it
+  private pointer?: [number, number];
+  private hoveredFeature?: FeatureEvent;
+  private pointerDownAt?: [number, number];
+  // Pending frame that moves flow particles, and the flows layers whose particles it moves
+  private particleFrame?: number;
+  private particleLayers: MapLayer[] = [];
+  // Cleared while the map is scrolled out of view, pausing the particles
+  private onScreen = true;
+  // Highlight collections by highlight layer id, see highlightData()
+  private highlightCollections = new Map<string, FeatureCollection>();
+
+  // Zoom and projection state of this map, e.g. for a LocatorMapComponent to follow
+  readonly geoZoom = inject(GeoZoomService);
+
   private mapRenderer = inject(MapRendererService);
-  private geoZoom = inject(GeoZoomService);
   private animationController = inject(AnimationControllerService);
+  private projectionRegistry = inject(ProjectionRegistryService);
+  private frameExport = inject(FrameExportService);
+  private layerManager = inject(LayerManagerService);
+  private hitTester = inject(HitTestService);
+  private pointLayers = inject(PointLayerService);
+  private flowLayers = inject(FlowLayerService);
+  private scheduler = inject(AnimationScheduler);
+  private storyLoader = inject(StoryLoaderService);
+  private referenceLayers = inject(ReferenceLayerService);
+  private mapScale = inject(MapScaleService);
+  private mapLink = inject(MapLinkService);
+  private vectorTiles = inject(VectorTileService);
+  private rasterTiles = inject(RasterTileService);
   private destroyRef = inject(DestroyRef);
 
   constructor() {
@@ -72,29 +236,105 @@ export class MapContainerComponent implements AfterViewInit {
       }
     });
 
+    // Keep the built-in base and tissot layers in sync with the inputs
     effect(() => {
       const data = this.geoDataSignal();
-      const show = this.showTissot(); // Add explicit dependency on showTissot
-      if (data && this.renderContext && this.projection) {
-        this.renderData(data);
-
-        // Render tissot overlay when enabled, clear it when disabled
-        // IMPORTANT: Tissot circle polygons MUST have counter-clockwise winding order
-        // for SVG fills to render correctly. Clockwise winding causes SVG to fill
-        // the EXTERIOR (entire map except circles), creating opaque rectangles.
-        // See: src/app/components/map-container/sampleData/README.md
-        if (show && this.renderContext) {
-          const tgeo = this.tissotGeoJson() || (sampleTissotFixed as FeatureCollection);
-          if (tgeo) {
-            this.mapRenderer.renderGeoJson(this.renderContext, tgeo, {
-              layer: 'tissot',
-              style: { fill: 'coral', stroke: 'none', fillOpacity: 0.25 },
-            });
-          }
-        } else if (this.renderContext) {
-          // Clear tissot layer when disabled
-          this.mapRenderer.clearLayer(this.renderContext, 'tissot');
+      const style = this.geoStyle();
+      const tissot = this.tissotGeoJson() || (sampleTissotFixed as FeatureCollection);
+      const showTissot = this.showTissot();
+      // The slippy map's tiles already show the land
+      const showBase = this.mapMode() !== 'slippy' || !this.slippyOptions();
+
+      // Syncing re-renders synchronously; don't track the signals read while rendering
+      untracked(() => {
+        if (data) {
+          this.syncLayer({ id: 'base', data, style, visible: showBase });
+        }
+        this.syncLayer({ id: 'tissot', data: tissot, style: TISSOT_STYLE, visible: showTissot });
+      });
+    });
+
+    // Keep the built-in reference layers in sync with the inputs. They are ordinary layers, so
+    // steps can toggle them by id ('ocean', 'graticule', 'sphere').
+    effect(() => {
+      const ocean = { visible: this.showOcean(), style: this.oceanStyle() };
+      const graticule = this.referenceLayers.graticule(this.graticuleOptions());
+      const showGraticule = this.showGraticule();
+      const sphere = { visible: this.showSphere(), style: this.sphereStyle() };
+
+      untracked(() => {
+        const data = this.referenceLayers.sphere();
+        this.syncLayer({ id: 'ocean', data, ...ocean, interactive: false }, 0);
+        this.syncLayer(
+          { id: 'graticule', ...graticule, visible: showGraticule, interactive: false },
+          1
+        );
+        this.syncLayer({ id: 'sphere', data, ...sphere, interactive: false });
+      });
+    });
+
+    // Keep the slippy map's tiles in sync with the inputs: a built-in 'tiles' layer above the
+    // ocean, shown only in slippy mode. There are no default tiles.
+    effect(() => {
+      const visible = this.mapMode() === 'slippy';
+      const options = this.slippyOptions();
+
+      untracked(() => {
+        if (options) {
+          const { source, tileSize, maxZoom = 19 } = options;
+          this.syncLayer(
+            {
+              id: 'tiles',
+              type: 'raster-tiles',
+              data: { type: 'FeatureCollection', features: [] },
+              raster: { source, tileSize, maxZoom },
+              visible,
+              interactive: false,
+            },
+            1
+          );
+        } else if (this.layerManager.has('tiles')) {
+          this.layerManager.remove('tiles');
         }
+        if (this.renderContext) this.applyMapMode();
+      });
+    });
+
+    // Re-render when animation steps toggle layers or the selection changes
+    effect(() => {
+      this.layerVisibility();
+      this.selectedFeatures();
+      this.highlightStyle();
+      untracked(() => this.renderLayers());
+    });
+
+    // Measure the scale bar and north arrow when they are turned on or reconfigured
+    effect(() => {
+      this.showScaleBar();
+      this.scaleBarOptions();
+      this.showNorthArrow();
+      untracked(() => this.updateMapWidgets());
+    });
+
+    // Link into the group once the map is initialized; leave it on change or destroy
+    effect((onCleanup) => {
+      const group = this.linkGroup();
+      if (group && this.initialized()) {
+        onCleanup(untracked(() => this.mapLink.link(group, this.geoZoom)));
+      }
+    });
+
+    // Swap projection at runtime when the projection inputs or the map mode change
+    effect(() => {
+      const mode = this.mapMode();
+      const projection = this.projection();
+      const options = this.projectionOptions();
+      const applied = this.appliedProjection;
+      if (
+        this.renderContext &&
+        (applied?.[0] !== mode || applied?.[1] !== projection || applied?.[2] !== options)
+      ) {
+        untracked(() => this.changeProjection(projection, options));
       }
     });
   }
@@ -111,11 +351,13 @@ export class MapContainerComponent implements AfterViewInit {
     const container = this.mapContainer();
     if (!container) return;
 
-    // Create equirectangular projection
-    this.projection = d3
-      .geoEquirectangular()
-      .scale(this.width() / (2 * Math.PI))
-      .translate([this.width() / 2, this.height() / 2]);
+    // Create the projection from the registry (fitted to the viewport)
+    const { projection, centerStrategy } = this.createProjection(
+      this.projection(),
+      this.projectionOptions()
+    );
+    this.activeProjection = projection;
+    this.appliedProjection = [this.mapMode(), this.projection(), this.projectionOptions()];
 
     // Initialize renderer
     this.renderContext =
@@ -124,47 +366,76 @@ export class MapContainerComponent implements AfterViewInit {
             container.nativeElement,
             this.width(),
             this.height(),
-            this.projection
+            this.activeProjection
           )
         : this.mapRenderer.initCanvasRenderer(
             container.nativeElement,
             this.width(),
             this.height(),
-            this.projection
+            this.activeProjection
           );
 
     // Initialize zoom behavior
-    this.geoZoom.init(container.nativeElement, this.projection, this.width(), this.height(), {
-      scaleExtent: [0.5, 20],
-    });
+    this.geoZoom.init(
+      container.nativeElement,
+      this.activeProjection,
+      this.width(),
+      this.height(),
+      { scaleExtent: [0.5, 20], centerStrategy }
+    );
+    this.applyMapMode();
 
-    // Render initial data if available
-    const data = this.geoData();
-    if (data) {
-      this.renderData(data);
-
-      // Render tissot overlay if enabled
-      if (this.showTissot()) {
-        const tgeo = this.tissotGeoJson() || (sampleTissotFixed as FeatureCollection);
-        if (tgeo) {
-          this.mapRenderer.renderGeoJson(this.renderContext!, tgeo, {
-            layer: 'tissot',
-            style: { fill: 'coral', stroke: 'none', fillOpacity: 0.25 },
-          });
-        }
-      }
-    }
+    // Render the initial layers
+    this.renderLayers();
+    this.initialized.set(true);
   }
 
   /**
    * Setup event listeners
    */
   private setupEventListeners(): void {
+    // Pause flow particles while the map is scrolled out of view
+    const container = this.mapContainer()?.nativeElement;
+    if (container && typeof IntersectionObserver !== 'undefined') {
+      const observer = new IntersectionObserver(([entry]) => {
+        this.onScreen = entry.isIntersecting;
+        this.scheduleParticles();
+      });
+      observer.observe(container);
+      this.destroyRef.onDestroy(() => observer.disconnect());
+    }
+
     // Listen to projection changes
     this.geoZoom.onProjectionChange.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
       this.handleProjectionChange();
     });
 
+    // Re-render when layers are added, removed, reordered or restyled
+    this.layerManager.onLayersChange.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.renderLayers();
+    });
+
+    // Redraw as vector tiles arrive (loads are batched into one event per frame)
+    this.vectorTiles.onTileLoad.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      if (this.getRenderedLayers().some((layer) => layer.type === 'vector-tiles')) {
+        this.renderLayers();
+      }
+    });
+
+    // Redraw as raster tiles arrive and full-resolution frames replace previews
+    this.rasterTiles.onUpdate.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      if (this.getRenderedLayers().some((layer) => layer.type === 'raster-tiles')) {
+        this.renderLayers();
+      }
+    });
+
+    // Redraw canvas markers as their images arrive (SVG images load by themselves)
+    this.mapRenderer.onIconLoad.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      if (this.renderMode() === 'canvas') {
+        this.renderLayers();
+      }
+    });
+
     // Listen to FPS updates
     this.animationController.onFpsUpdate
       .pipe(takeUntilDestroyed(this.destroyRef))
@@ -188,12 +459,40 @@ export class MapContainerComponent implements AfterViewInit {
 
     this.animationController.onStepChange
       .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe(({ step, total }) => {
+      .subscribe(({ step, total, caption, layers }) => {
         this.currentStep.set(`Step ${step} of ${total}`);
+        this.currentCaption.set(caption);
+        this.layerVisibility.set(layers);
+      });
+
+    // Stopping (here or through the controller) hands layer visibility and draw-on progress
+    // back to the inputs and layer options
+    this.animationController.onStop.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      this.isAnimating.set(false);
+      this.currentStep.set('');
+      this.currentCaption.set(undefined);
+      this.layerVisibility.set({});
+      this.layerProgress.set({});
+    });
+
+    // Set before the frame renders, so arcs draw on in step with the camera
+    this.animationController.onLayerProgress
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((progress) => {
+        this.layerProgress.set(progress);
+      });
+
+    this.animationController.onProgress
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((progress) => {
+        this.animationProgress.emit(progress);
       });
 
     // Cleanup on destroy
     this.destroyRef.onDestroy(() => {
+      if (this.particleFrame !== undefined) {
+        this.scheduler.cancelFrame(this.particleFrame);
+      }
       const container = this.mapContainer();
       if (container && container.nativeElement) {
         this.geoZoom.destroy(container.nativeElement);
@@ -201,46 +500,385 @@ export class MapContainerComponent implements AfterViewInit {
     });
   }
 
+  /**
+   * Replace the active projection, keeping the current view center and zoom
+   */
+  private changeProjection(input: ProjectionInput, options: ProjectionOptions): void {
+    const { projection, centerStrategy } = this.createProjection(input, options);
+    this.activeProjection = projection;
+    this.appliedProjection = [this.mapMode(), input, options];
+
+    // GeoZoomService emits onProjectionChange, which re-renders with the new projection
+    this.geoZoom.setProjection(projection, centerStrategy);
+    this.applyMapMode();
+  }
+
+  /**
+   * The projection for the map mode: the projection inputs' (fitted to the viewport), or in
+   * slippy mode a Web Mercator showing the world across the viewport's width
+   */
+  private createProjection(input: ProjectionInput, options: ProjectionOptions): ResolvedProjection {
+    if (this.mapMode() !== 'slippy') {
+      return this.projectionRegistry.create(input, this.width(), this.height(), options);
+    }
+
+    const projection = d3
+      .geoMercator()
+      .scale(this.width() / (2 * Math.PI))
+      .translate([this.width() / 2, this.height() / 2]);
+    // Rotating longitude only keeps the Mercator north-up, so its tiles can be drawn directly
+    return { projection, centerStrategy: 'rotate-lambda' };
+  }
+
+  /**
+   * Tell GeoZoomService the map mode. Slippy maps zoom in as far as their tiles go.
+   */
+  private applyMapMode(): void {
+    const slippy = this.mapMode() === 'slippy';
+    this.geoZoom.setSlippy(slippy);
+    if (slippy) {
+      const { tileSize = 256, maxZoom = 19 } = this.slippyOptions() ?? {};
+      this.geoZoom.setScaleExtent([0.5, this.geoZoom.scaleForTileZoom(maxZoom, tileSize)]);
+    } else {
+      this.geoZoom.setScaleExtent([0.5, 20]);
+    }
+  }
+
   /**
    * Handle projection change events - re-render the map
    */
   private handleProjectionChange(): void {
-    if (this.renderContext && this.projection) {
-      const data = this.geoDataSignal();
-      if (data) {
-        // Update projection in render context
-        this.mapRenderer.updateProjection(this.renderContext, this.projection);
-
-        // Re-render data with updated projection
-        this.renderData(data);
-
-        // Re-render tissot overlay if enabled, clear it when disabled
-        // IMPORTANT: See note above about winding order requirement for Tissot circles
-        if (this.showTissot() && this.renderContext) {
-          const tgeo = this.tissotGeoJson() || (sampleTissotFixed as FeatureCollection);
-          if (tgeo) {
-            this.mapRenderer.renderGeoJson(this.renderContext, tgeo, {
-              layer: 'tissot',
-              style: { fill: 'coral', stroke: 'none', fillOpacity: 0.25 },
-            });
-          }
-        } else if (this.renderContext) {
-          // Clear tissot layer when disabled
-          this.mapRenderer.clearLayer(this.renderContext, 'tissot');
+    // Projection morphs swap the projection instance driven by GeoZoomService
+    this.activeProjection = this.geoZoom.getProjection() ?? this.activeProjection;
+
+    if (this.renderContext && this.activeProjection) {
+      // Update projection in render context and re-render every layer with it
+      this.mapRenderer.updateProjection(this.renderContext, this.activeProjection);
+      this.renderLayers();
+    }
+
+    // Zoom, pan, camera transitions and morphs all end up here, their last frame included
+    const zoom = this.geoZoom.getZoomEvent();
+    if (zoom) {
+      this.zoomChange.emit(zoom);
+    }
+  }
+
+  /**
+   * Render all visible layers in draw order
+   */
+  private renderLayers(): void {
+    if (this.renderContext && this.activeProjection) {
+      const layers = this.getRenderedLayers();
+      this.renderContext.time = this.scheduler.now();
+      this.mapRenderer.renderLayers(this.renderContext, [...layers, ...this.getHighlightLayers()]);
+      this.refreshHover();
+      this.updateTooltipPosition();
+      this.updateMapWidgets();
+      this.particleLayers = this.mapRenderer.particleLayers(this.renderContext, layers);
+      this.scheduleParticles();
+    }
+  }
+
+  /**
+   * Re-measure the scale bar and north arrow in the current projection
+   */
+  private updateMapWidgets(): void {
+    const projection = this.activeProjection;
+    const viewport: [number, number] = [this.width(), this.height()];
+
+    this.scaleBar.set(
+      projection && this.showScaleBar()
+        ? this.mapScale.scaleBar(projection, viewport, this.scaleBarOptions())
+        : undefined
+    );
+    this.northAngle.set(
+      projection && this.showNorthArrow()
+        ? this.mapScale.northAngle(projection, viewport)
+        : undefined
+    );
+  }
+
+  /**
+   * Move flow particles every frame, redrawing nothing else, while a flows layer with particles
+   * is in view and the map is on screen. Renders and the map scrolling back into view restart
+   * the loop.
+   */
+  private scheduleParticles(): void {
+    if (this.particleLayers.length === 0 || !this.onScreen) {
+      if (this.particleFrame !== undefined) {
+        this.scheduler.cancelFrame(this.particleFrame);
+        this.particleFrame = undefined;
+      }
+      return;
+    }
+    if (this.particleFrame !== undefined) return;
+
+    this.particleFrame = this.scheduler.requestFrame(() => {
+      this.particleFrame = undefined;
+      if (!this.renderContext) return;
+      this.renderContext.time = this.scheduler.now();
+      this.mapRenderer.renderParticles(this.renderContext, this.particleLayers);
+      this.scheduleParticles();
+    });
+  }
+
+  /**
+   * Layers drawing the selection and hover highlights; they are not hit-tested themselves
+   */
+  private getHighlightLayers(): MapLayer[] {
+    const { hover, selected } = { ...DEFAULT_HIGHLIGHT_STYLE, ...this.highlightStyle() };
+    const rendered = this.getRenderedLayers();
+    const layers: MapLayer[] = [];
+
+    // Selected points and flows are highlighted the way their layer draws them, other features
+    // with their shape
+    let rest = this.selectedFeatures();
+    for (const source of rendered.filter((layer) => layer.type && layer.type !== 'geojson')) {
+      if (rest.length === 0) break;
+      const inLayer = new Set(source.data.features);
+      const points = rest.filter((feature) => inLayer.has(feature));
+      if (points.length > 0) {
+        const id = `${SELECTION_LAYER}-${source.id}`;
+        layers.push(this.highlightLayer(id, points, selected, source));
+        rest = rest.filter((feature) => !inLayer.has(feature));
+      }
+    }
+    if (rest.length > 0) {
+      layers.push(this.highlightLayer(SELECTION_LAYER, rest, selected));
+    }
+
+    if (this.hoveredFeature) {
+      const { feature, layer } = this.hoveredFeature;
+      const source = rendered.find((item) => item.id === layer);
+      layers.push(this.highlightLayer(HOVER_LAYER, [feature], hover, source));
+    }
+    return layers;
+  }
+
+  /**
+   * Highlight layer for features of a source layer. Points are drawn as unclustered markers of
+   * the source's size (icons as circles around them), flows as arcs of the source's width and
+   * progress; both follow the source's visibility.
+   */
+  private highlightLayer(
+    id: string,
+    features: Feature[],
+    style: LayerStyle | undefined,
+    source?: MapLayer
+  ): MapLayer {
+    const data = this.highlightData(id, features);
+    const layer: MapLayer = { id, data, style, interactive: false };
+    if (source?.type === 'flows') {
+      const width = this.flowLayers.width(source);
+      return {
+        ...layer,
+        type: 'flows',
+        visible: source.visible,
+        flow: {
+          width: (feature) => width(feature, source.data.features.indexOf(feature)),
+          progress: source.flow?.progress,
+        },
+      };
+    }
+    if (source?.type !== 'points') return layer;
+
+    const shape = source.symbol?.shape;
+    const radius = this.pointLayers.radius(source);
+    return {
+      ...layer,
+      type: 'points',
+      visible: source.visible,
+      symbol: {
+        shape: typeof shape === 'object' && 'icon' in shape ? undefined : shape,
+        radius: (feature) => radius(feature, source.data.features.indexOf(feature)),
+      },
+    };
+  }
+
+  /**
+   * Highlighted features as a collection, reused while they are unchanged so compiled styles
+   * stay cached
+   */
+  private highlightData(id: string, features: Feature[]): FeatureCollection {
+    const previous = this.highlightCollections.get(id);
+    if (
+      previous?.features.length === features.length &&
+      previous.features.every((feature, i) => feature === features[i])
+    ) {
+      return previous;
+    }
+    const data: FeatureCollection = { type: 'FeatureCollection', features };
+    this.highlightCollections.set(id, data);
+    return data;
+  }
+
+  /**
+   * Track the pointer and emit featureHover / featureLeave for the feature under it
+   */
+  protected onPointerMove(event: MouseEvent): void {
+    this.pointer = this.containerPoint(event);
+    this.updateHover(event.target as Element);
+
+    // The hover tooltip follows the pointer while it moves
+    if (this.hoveredFeature && !this.tooltipAnchor()?.pinned) {
+      this.showHoverTooltip(this.hoveredFeature);
+    }
+  }
+
+  protected onPointerLeave(): void {
+    this.pointer = undefined;
+    this.updateHover();
+  }
+
+  protected onPointerDown(event: MouseEvent): void {
+    this.pointerDownAt = [event.clientX, event.clientY];
+  }
+
+  /**
+   * Emit featureClick for the feature under the pointer, unless the click ends a drag
+   */
+  protected onMapClick(event: MouseEvent): void {
+    const [x, y] = this.pointerDownAt ?? [event.clientX, event.clientY];
+    if (Math.hypot(event.clientX - x, event.clientY - y) > CLICK_TOLERANCE) return;
+
+    const hit = this.featureAt(this.containerPoint(event), event.target as Element);
+    if (hit) {
+      this.featureClick.emit(hit);
+    }
+    // Clusters regroup as the scale changes, so they can't be selected
+    if (hit && isClusterFeature(hit.feature)) return;
+    this.updateSelection(hit?.feature);
+  }
+
+  /**
+   * Apply a click to the selection: single mode selects the feature (or clears it when clicked
+   * again), multiple mode toggles it, and clicking off every feature clears the selection
+   */
+  private updateSelection(feature?: Feature): void {
+    const mode = this.selectionMode();
+    if (mode === 'none') return;
+
+    const selected = this.selectedFeatures();
+    if (!feature) {
+      if (selected.length > 0) this.selectedFeatures.set([]);
+    } else if (selected.includes(feature)) {
+      this.selectedFeatures.set(selected.filter((item) => item !== feature));
+    } else {
+      this.selectedFeatures.set(mode === 'single' ? [feature] : [...selected, feature]);
+    }
+  }
+
+  /**
+   * Re-test hover after the map was redrawn (pan, zoom, morph, animation) under a still pointer
+   */
+  private refreshHover(): void {
+    // Without an event target the renderer hit-tests the layers through the new projection
+    if (this.pointer) {
+      this.updateHover();
+    }
+  }
+
+  private updateHover(target?: Element | null): void {
+    const hit = this.pointer ? this.featureAt(this.pointer, target) : undefined;
+    const previous = this.hoveredFeature;
+    this.hoveredFeature = hit;
+
+    const changed = previous?.feature !== hit?.feature || previous?.layer !== hit?.layer;
+    if (previous && changed) {
+      this.featureLeave.emit(previous);
+    }
+    if (hit) {
+      this.featureHover.emit(hit);
+    }
+
+    if (changed) {
+      // A new feature under the pointer: move the tooltip to it and redraw the hover highlight
+      if (!this.tooltipAnchor()?.pinned) {
+        if (hit) {
+          this.showHoverTooltip(hit);
+        } else {
+          this.tooltipAnchor.set(undefined);
+          this.updateTooltipPosition();
         }
       }
+      this.renderLayers();
     }
   }
 
   /**
-   * Render GeoJSON data
+   * Anchor the hover tooltip at the hovered coordinate, if a tooltip template is set
    */
-  renderData(data: FeatureCollection): void {
-    if (this.renderContext) {
-      this.mapRenderer.renderGeoJson(this.renderContext, data);
+  private showHoverTooltip(hit: FeatureEvent): void {
+    const template = this.tooltip();
+    if (!template) return;
+
+    const content = typeof template === 'function' ? template(hit) : formatTooltip(template, hit);
+    this.tooltipAnchor.set({ coordinates: hit.coordinates, content, pinned: false });
+    this.updateTooltipPosition();
+  }
+
+  /**
+   * Project the tooltip anchor with the current projection; hidden when the anchor is clipped
+   * (e.g. it rotated to the far side of a globe)
+   */
+  private updateTooltipPosition(): void {
+    const anchor = this.tooltipAnchor();
+    const projection = this.activeProjection;
+    this.tooltipPosition.set(
+      anchor && projection
+        ? this.hitTester.projectVisible(projection, anchor.coordinates)
+        : undefined
+    );
+  }
+
+  private featureAt(point: [number, number], target?: Element | null): FeatureEvent | undefined {
+    if (!this.renderContext) return undefined;
+
+    const hit = this.mapRenderer.hitTest(this.renderContext, point, target);
+    return hit && { ...hit, point };
+  }
+
+  /**
+   * Pointer position in pixels relative to the map container
+   */
+  private containerPoint(event: MouseEvent): [number, number] {
+    return d3.pointer(event, this.mapContainer()?.nativeElement);
+  }
+
+  /**
+   * Layers as drawn: registry layers with animation step visibility and draw-on progress applied
+   */
+  private getRenderedLayers(): MapLayer[] {
+    const overrides = this.layerVisibility();
+    const progress = this.layerProgress();
+    return this.layerManager.list().map((layer) => {
+      let rendered = layer.id in overrides ? { ...layer, visible: overrides[layer.id] } : layer;
+      if (layer.id in progress) {
+        rendered = { ...rendered, flow: { ...layer.flow, progress: progress[layer.id] } };
+      }
+      return rendered;
+    });
+  }
+
+  /**
+   * Add a layer (at an index in the draw order, default on top), or update it if it exists
+   */
+  private syncLayer(layer: MapLayer, index?: number): void {
+    if (this.layerManager.has(layer.id)) {
+      this.layerManager.update(layer.id, layer);
+    } else {
+      this.layerManager.add(layer, index);
     }
   }
 
+  /**
+   * Render GeoJSON data as the base layer
+   */
+  renderData(data: FeatureCollection): void {
+    this.syncLayer({ id: 'base', data });
+  }
+
   /**
    * Update GeoJSON data
    */
@@ -249,6 +887,65 @@ export class MapContainerComponent implements AfterViewInit {
     this.renderData(data);
   }
 
+  /**
+   * Add a GeoJSON layer on top (or at an index in the draw order, 0 = bottom)
+   */
+  addLayer(layer: MapLayer, index?: number): void {
+    this.layerManager.add(layer, index);
+  }
+
+  /**
+   * Remove a layer
+   */
+  removeLayer(id: string): void {
+    this.layerManager.remove(id);
+  }
+
+  /**
+   * Show or hide a layer
+   */
+  setLayerVisibility(id: string, visible: boolean): void {
+    this.layerManager.setVisible(id, visible);
+  }
+
+  /**
+   * Set a layer's opacity (0-1)
+   */
+  setLayerOpacity(id: string, opacity: number): void {
+    this.layerManager.setOpacity(id, opacity);
+  }
+
+  /**
+   * Replace a layer's style
+   */
+  setLayerStyle(id: string, style: LayerStyle): void {
+    this.layerManager.setStyle(id, style);
+  }
+
+  /**
+   * Move a layer to an index in the draw order (0 = bottom)
+   */
+  moveLayer(id: string, index: number): void {
+    this.layerManager.moveTo(id, index);
+  }
+
+  /**
+   * Pin a tooltip at a geographic coordinate; it follows the map as it pans, zooms and
+   * rotates, and hover tooltips are suspended until hideTooltip()
+   */
+  showTooltip(coordinates: [number, number], content: string): void {
+    this.tooltipAnchor.set({ coordinates, content, pinned: true });
+    this.updateTooltipPosition();
+  }
+
+  /**
+   * Remove the tooltip
+   */
+  hideTooltip(): void {
+    this.tooltipAnchor.set(undefined);
+    this.updateTooltipPosition();
+  }
+
   /**
    * Play animation sequence
    */
@@ -259,6 +956,47 @@ export class MapContainerComponent implements AfterViewInit {
     }
   }
 
+  /**
+   * Validate and play a story (a StoryDocument object or JSON text).
+   * Throws StoryValidationError listing every problem in the story.
+   */
+  playStory(story: unknown): LoadedStory {
+    const loaded = this.storyLoader.parse(story);
+    this.playAnimation(loaded.sequence);
+    return loaded;
+  }
+
+  /**
+   * Fetch, validate and play a story file
+   */
+  async playStoryUrl(url: string): Promise<LoadedStory> {
+    const loaded = await this.storyLoader.load(url);
+    this.playAnimation(loaded.sequence);
+    return loaded;
+  }
+
+  /**
+   * Render an animation sequence frame by frame (fixed fps, virtual clock) to PNG frames
+   * or a WebM video, drawing the map's layers as the steps toggle them
+   */
+  exportAnimation(
+    sequence: AnimationSequence,
+    options: FrameExportOptions = {}
+  ): Promise<FrameExportResult> {
+    return this.frameExport.exportSequence(sequence, () => this.getRenderedLayers(), options);
+  }
+
+  /**
+   * Morph to another projection, optionally moving to an extent at the same time
+   */
+  morphToProjection(
+    projection: ProjectionInput,
+    duration: number = 1500,
+    options: { extent?: MapExtent; projectionOptions?: ProjectionOptions } = {}
+  ): void {
+    this.animationController.animateToProjection(projection, { duration }, options);
+  }
+
   /**
    * Stop animation
    */
@@ -283,6 +1021,41 @@ export class MapContainerComponent implements AfterViewInit {
     }
   }
 
+  /**
+   * Check whether an animation is paused
+   */
+  isAnimationPaused(): boolean {
+    return this.animationController.isAnimationPaused();
+  }
+
+  /**
+   * Seek the current animation to a time in ms
+   */
+  seekAnimation(time: number): void {
+    this.animationController.seek(time);
+  }
+
+  /**
+   * Seek the current animation to a normalized position (0-1)
+   */
+  seekAnimationProgress(progress: number): void {
+    this.animationController.seekToProgress(progress);
+  }
+
+  /**
+   * Set animation playback speed (1 = real time, negative plays backwards)
+   */
+  setPlaybackRate(rate: number): void {
+    this.animationController.setPlaybackRate(rate);
+  }
+
+  /**
+   * Total duration of the current animation in ms
+   */
+  getAnimationDuration(): number {
+    return this.animationController.getDuration();
+  }
+
   /**
    * Reset zoom to initial state
    */
@@ -305,16 +1078,75 @@ export class MapContainerComponent implements AfterViewInit {
   }
 
   /**
-   * Zoom to extent (center and scale to fit bounds)
+   * Fly to coordinates along a smooth zoom-pan path (zooms out mid-flight on long hops)
+   */
+  flyTo(
+    coordinates: [number, number],
+    scale: number,
+    duration: number = 1500,
+    options: FlyToOptions = {}
+  ): void {
+    this.geoZoom.animateTo(coordinates, scale, duration, undefined, { flyTo: options });
+  }
+
+  /**
+   * Zoom to extent (center and scale to fit [[minLon, minLat], [maxLon, maxLat]])
    */
   zoomToExtent(bounds: [[number, number], [number, number]], duration: number = 750): void {
-    // Calculate center of bounds
-    const center: [number, number] = [
-      (bounds[0][0] + bounds[1][0]) / 2,
-      (bounds[0][1] + bounds[1][1]) / 2,
-    ];
-
-    // For now, use a fixed scale - can be improved to calculate optimal scale
-    this.geoZoom.animateTo(center, 2, duration);
+    this.zoomToBounds(
+      { minLon: bounds[0][0], minLat: bounds[0][1], maxLon: bounds[1][0], maxLat: bounds[1][1] },
+      20,
+      duration
+    );
+  }
+
+  /**
+   * Zoom so the bounds fill the viewport (minus padding) in the current projection
+   */
+  zoomToBounds(bounds: GeoBounds, padding: number = 20, duration: number = 750): void {
+    this.animateToFit({ bounds, padding }, duration);
+  }
+
+  /**
+   * Zoom to a feature, or the feature in the current data whose id (or properties.id /
+   * properties.name) matches. Returns false, without moving, when no feature matches.
+   */
+  zoomToFeature(
+    feature: Feature | string | number,
+    padding: number = 20,
+    duration: number = 750
+  ): boolean {
+    const target = typeof feature === 'object' ? feature : this.findFeature(feature);
+    if (!target) return false;
+
+    this.animateToFit({ geometry: target, padding }, duration);
+    return true;
+  }
+
+  /**
+   * Zoom so all features in the collection fit the viewport
+   */
+  zoomToFeatures(features: FeatureCollection, padding: number = 20, duration: number = 750): void {
+    this.animateToFit({ geometry: features, padding }, duration);
+  }
+
+  /**
+   * Animate to the extent that fits a target
+   */
+  private animateToFit(target: FitTarget, duration: number): void {
+    const { center, scale } = this.geoZoom.fitExtent(target);
+    this.geoZoom.animateTo(center, scale, duration);
+  }
+
+  /**
+   * Find a feature in the current data by id
+   */
+  private findFeature(id: string | number): Feature | undefined {
+    return this.geoDataSignal()?.features.find(
+      (feature) =>
+        feature.id === id ||
+        feature.properties?.['id'] === id ||
+        feature.properties?.['name'] === id
+    );
   }
 }
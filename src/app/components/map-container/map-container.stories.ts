@@ -4,7 +4,10 @@ import { fn } from 'storybook/test';
 // import { MapContainerComponent } from './header.component';
 import { MapContainerComponent } from './map-container.component';
 import worldData from './sampleData/world.json';
+import namedWorldData from '../../data/world-110m.json';
 import { GeoJsonObject, FeatureCollection } from 'geojson';
+import * as d3 from 'd3';
+import { LayerStyle, RasterTileSource } from './models/map.types';
 
 const meta: Meta<MapContainerComponent> = {
   title: 'Map/MapContainer',
@@ -43,6 +46,113 @@ export const Canvas: Story = {
   },
 };
 
+export const Orthographic: Story = {
+  args: {
+    width: 400,
+    height: 400,
+    geoData: worldData as FeatureCollection,
+    renderMode: 'svg',
+    projection: 'orthographic',
+    projectionOptions: { center: [-30, 30] },
+  },
+};
+
+export const GraticuleAndOcean: Story = {
+  name: 'Graticule and Ocean',
+  args: {
+    width: 400,
+    height: 400,
+    geoData: worldData as FeatureCollection,
+    renderMode: 'svg',
+    projection: 'orthographic',
+    projectionOptions: { center: [20, 20] },
+    showOcean: true,
+    showGraticule: true,
+    graticuleOptions: { step: [15, 15], majorStep: [45, 45] },
+    showSphere: true,
+  },
+};
+
+export const GraticuleAndOceanCanvas: Story = {
+  name: 'Graticule and Ocean (Canvas)',
+  args: {
+    width: 600,
+    height: 320,
+    geoData: worldData as FeatureCollection,
+    renderMode: 'canvas',
+    projection: 'mollweide',
+    showOcean: true,
+    showGraticule: true,
+    showSphere: true,
+  },
+};
+
+export const ScaleBarAndNorthArrow: Story = {
+  name: 'Scale Bar and North Arrow',
+  args: {
+    width: 600,
+    height: 360,
+    geoData: worldData as FeatureCollection,
+    renderMode: 'svg',
+    projection: 'equirectangular',
+    showScaleBar: true,
+    scaleBarOptions: { units: 'both' },
+    showNorthArrow: true,
+  },
+};
+
+// Two maps in one link group: dragging or zooming either one moves the other
+export const LinkedMaps: Story = {
+  name: 'Linked Maps',
+  render: () => ({
+    template: `
+      <div style="display: flex; gap: 8px">
+        <app-map-container [width]="360" [height]="300" projection="equirectangular"
+          linkGroup="compare" [showScaleBar]="true" />
+        <app-map-container [width]="300" [height]="300" projection="orthographic"
+          linkGroup="compare" [showScaleBar]="true" [showSphere]="true" />
+      </div>
+    `,
+  }),
+};
+
+// Generated checkerboard tiles, shaded by zoom, so the story needs no tile server
+const checkerboardTiles: RasterTileSource = {
+  tile: async (z, x, y) => {
+    const data = new Uint8ClampedArray(256 * 256 * 4);
+    const shade = 255 - ((z * 12) % 128);
+    for (let i = 0; i < 256 * 256; i++) {
+      const edge = i % 256 === 0 || i < 256;
+      const value = edge ? 96 : (x + y) % 2 ? shade : shade - 32;
+      data.set([value, value, edge ? 96 : 255, 255], i * 4);
+    }
+    return { width: 256, height: 256, data };
+  },
+};
+
+// A north-up Web Mercator over image tiles; tile edges are outlined
+export const SlippyMap: Story = {
+  name: 'Slippy Map',
+  args: {
+    width: 600,
+    height: 400,
+    renderMode: 'canvas',
+    mapMode: 'slippy',
+    slippyOptions: { source: checkerboardTiles, maxZoom: 8, attribution: 'Generated tiles' },
+    showScaleBar: true,
+  },
+};
+
+export const Albers: Story = {
+  args: {
+    width: 600,
+    height: 360,
+    geoData: worldData as FeatureCollection,
+    renderMode: 'svg',
+    projection: 'albers',
+  },
+};
+
 export const TissotSVG: Story = {
   name: 'Tissot (SVG)',
   args: {
@@ -75,3 +185,52 @@ export const TissotCanvas: Story = {
     showTissot: true,
   },
 };
+
+// Choropleth demo: world.json has no statistics, so class countries by their area (steradians)
+const worldWithArea: FeatureCollection = {
+  ...(worldData as FeatureCollection),
+  features: (worldData as FeatureCollection).features.map((feature) => ({
+    ...feature,
+    properties: { ...feature.properties, area: d3.geoArea(feature) },
+  })),
+};
+
+const areaChoropleth: LayerStyle = {
+  fill: { type: 'quantile', property: 'area', colors: ['#f7fbff', '#08306b'], classes: 5 },
+  stroke: '#fff',
+};
+
+export const ChoroplethSVG: Story = {
+  name: 'Choropleth (SVG)',
+  args: {
+    width: 600,
+    height: 360,
+    geoData: worldWithArea,
+    geoStyle: areaChoropleth,
+    renderMode: 'svg',
+  },
+};
+
+export const ChoroplethCanvas: Story = {
+  name: 'Choropleth (Canvas)',
+  args: {
+    width: 600,
+    height: 360,
+    geoData: worldWithArea,
+    geoStyle: areaChoropleth,
+    renderMode: 'canvas',
+  },
+};
+
+export const TooltipsAndSelection: Story = {
+  name: 'Tooltips and Selection',
+  args: {
+    width: 600,
+    height: 360,
+    geoData: namedWorldData as FeatureCollection,
+    renderMode: 'svg',
+    tooltip: '{name}',
+    selectionMode: 'multiple',
+    featureClick: fn(),
+  },
+};
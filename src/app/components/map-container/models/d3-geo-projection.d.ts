@@ -0,0 +1,12 @@
+/**
+ * Minimal typings for d3-geo-projection (the package ships without types).
+ * Only the projections used by the projection registry are declared.
+ */
+declare module 'd3-geo-projection' {
+  import { GeoProjection } from 'd3-geo';
+
+  export function geoRobinson(): GeoProjection;
+  export function geoMollweide(): GeoProjection;
+  export function geoWinkel3(): GeoProjection;
+  export function geoEckert4(): GeoProjection;
+}
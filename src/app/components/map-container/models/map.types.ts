@@ -1,10 +1,55 @@
-import { GeoProjection } from 'd3-geo';
-import { FeatureCollection } from 'geojson';
+import { GeoPermissibleObjects, GeoProjection } from 'd3-geo';
+import { Feature, FeatureCollection, LineString } from 'geojson';
 
 export type RenderMode = 'svg' | 'canvas';
 
+/**
+ * Names of the projections registered out of the box.
+ * Custom projections can be registered under any other string.
+ */
+export type ProjectionName =
+  | 'equirectangular'
+  | 'mercator'
+  | 'orthographic'
+  | 'stereographic'
+  | 'azimuthalEqualArea'
+  | 'naturalEarth'
+  | 'albers'
+  | 'conicEqualArea'
+  | 'conicConformal'
+  | 'robinson'
+  | 'mollweide'
+  | 'winkelTripel'
+  | 'eckert4';
+
+/**
+ * A projection instance or the name of a registered projection
+ */
+export type ProjectionInput = GeoProjection | ProjectionName | (string & {});
+
+/**
+ * How a geographic center is applied to a projection.
+ * - 'rotate': rotate the globe so the center sits at the origin (cylindrical, azimuthal, pseudo-cylindrical)
+ * - 'rotate-lambda': rotate longitude only and use projection.center for latitude (conics,
+ *   which would otherwise tilt their standard parallels)
+ */
+export type CenterStrategy = 'rotate' | 'rotate-lambda';
+
+/**
+ * Per-projection parameters applied on top of the registered defaults
+ */
+export interface ProjectionOptions {
+  rotate?: [number, number] | [number, number, number];
+  center?: [number, number]; // [longitude, latitude]
+  parallels?: [number, number]; // conic projections only
+  clipAngle?: number; // degrees, azimuthal projections
+  precision?: number;
+  fit?: boolean; // fit the sphere into the viewport (default depends on projection)
+}
+
 export interface MapConfig {
-  projection: GeoProjection;
+  projection: ProjectionInput;
+  projectionOptions?: ProjectionOptions;
   width: number;
   height: number;
   renderMode: RenderMode;
@@ -22,16 +67,498 @@ export interface MapExtent {
   scale: number;
 }
 
+/**
+ * Geometry or bounds to fit into the viewport; resolved to a MapExtent in the current projection
+ */
+export interface FitTarget {
+  bounds?: GeoBounds; // minLon > maxLon crosses the antimeridian
+  geometry?: GeoPermissibleObjects; // Feature, FeatureCollection or Geometry
+  padding?: number; // pixels (default 20)
+}
+
+/**
+ * Van Wijk & Nuij smooth zoom-pan ("fly-to") camera path options
+ */
+export interface FlyToOptions {
+  rho?: number; // curvature: higher zooms out further mid-flight (default √2)
+  speed?: number; // when set, duration follows path length (d3 recommended duration / speed)
+}
+
+/**
+ * Named easing curves (d3-ease); see EASINGS in animation-controller.service.ts
+ */
+export type EasingName =
+  | 'linear'
+  | 'quadIn'
+  | 'quadOut'
+  | 'quadInOut'
+  | 'cubicIn'
+  | 'cubicOut'
+  | 'cubicInOut'
+  | 'sinIn'
+  | 'sinOut'
+  | 'sinInOut'
+  | 'expIn'
+  | 'expOut'
+  | 'expInOut'
+  | 'circleIn'
+  | 'circleOut'
+  | 'circleInOut'
+  | 'backIn'
+  | 'backOut'
+  | 'backInOut'
+  | 'elasticOut'
+  | 'bounceOut';
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Options for camera transitions between extents
+ */
+export interface CameraTransitionOptions {
+  flyTo?: boolean | FlyToOptions; // zoom out, travel and zoom back in instead of a linear lerp
+  easing?: EasingFunction; // default d3.easeCubicInOut
+}
+
 export interface AnimationConfig {
   duration: number; // milliseconds
-  easing?: (t: number) => number;
+  easing?: EasingFunction;
 }
 
 export interface ZoomConfig {
   scaleExtent: [number, number]; // [min, max]
   translateExtent?: [[number, number], [number, number]];
+  centerStrategy?: CenterStrategy;
+}
+
+/**
+ * A style value computed per feature
+ */
+export type FeatureStyleFunction<T> = (feature: Feature, index: number) => T;
+
+export type StyleValue<T> = T | FeatureStyleFunction<T>;
+
+/**
+ * Layer style. Each property is a constant or a function of the feature; colors can also be
+ * a ColorScale over a feature property (e.g. a choropleth fill).
+ */
+export interface LayerStyle {
+  fill?: StyleValue<string> | ColorScale;
+  stroke?: StyleValue<string> | ColorScale;
+  strokeWidth?: StyleValue<number>;
+  fillOpacity?: StyleValue<number>;
+}
+
+/**
+ * A layer style resolved for one feature
+ */
+export interface ResolvedStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fillOpacity: number;
+}
+
+/**
+ * Color spaces colorjs can interpolate ramps in; 'oklab' and 'oklch' are perceptually uniform
+ */
+export type ColorSpace = 'oklab' | 'oklch' | 'lab' | 'lch' | 'srgb' | 'srgb-linear' | 'hsl';
+
+interface ColorScaleBase {
+  property: string; // key in feature.properties
+  // One color per class. With a different number of classes the colors are treated as stops
+  // and interpolated in `interpolate` space, e.g. ['#f7fbff', '#08306b'] for a 5-class ramp.
+  colors: string[];
+  interpolate?: ColorSpace; // default 'oklab'
+  unknown?: string; // color for features without a usable value (default '#ccc')
+}
+
+/**
+ * Equal-interval classes over a numeric domain (default: the extent of the values)
+ */
+export interface QuantizeColorScale extends ColorScaleBase {
+  type: 'quantize';
+  classes?: number; // default colors.length
+  domain?: [number, number];
+}
+
+/**
+ * Classes holding equal numbers of features
+ */
+export interface QuantileColorScale extends ColorScaleBase {
+  type: 'quantile';
+  classes?: number; // default colors.length
+}
+
+/**
+ * Classes split at explicit breaks; n thresholds make n + 1 classes
+ */
+export interface ThresholdColorScale extends ColorScaleBase {
+  type: 'threshold';
+  thresholds: number[];
+}
+
+/**
+ * One class per distinct value (default: values in the order they first appear)
+ */
+export interface CategoricalColorScale extends ColorScaleBase {
+  type: 'categorical';
+  categories?: (string | number)[];
+}
+
+export type ColorScale =
+  | QuantizeColorScale
+  | QuantileColorScale
+  | ThresholdColorScale
+  | CategoricalColorScale;
+
+/**
+ * How a layer draws its features: 'geojson' draws every geometry as a path; 'points' draws
+ * Point and MultiPoint features as fixed-size markers (see PointSymbol); 'flows' draws
+ * LineString features as great-circle arcs from origin to destination (see FlowOptions);
+ * 'labels' draws a text label per feature, hiding labels that would overlap (see LabelOptions);
+ * 'vector-tiles' draws the features of the vector tiles covering the view (see VectorTileOptions);
+ * 'raster-tiles' draws image tiles reprojected into the map's projection (see RasterTileOptions)
+ */
+export type MapLayerType =
+  | 'geojson'
+  | 'points'
+  | 'flows'
+  | 'labels'
+  | 'vector-tiles'
+  | 'raster-tiles';
+
+/**
+ * A named GeoJSON layer; LayerManagerService draws layers bottom to top in registry order
+ */
+export interface MapLayer {
+  id: string;
+  type?: MapLayerType; // default 'geojson'
+  data: FeatureCollection; // tile layers draw their tiles instead (pass an empty one)
+  style?: LayerStyle;
+  visible?: boolean; // default true
+  opacity?: number; // 0-1, applied to the whole layer (default 1)
+  interactive?: boolean; // false: ignored by hover and click hit-testing (default true)
+  symbol?: PointSymbol; // 'points' layers
+  cluster?: boolean | PointClusterOptions; // 'points' layers: merge markers that overlap on screen
+  flow?: FlowOptions; // 'flows' layers
+  label?: LabelOptions; // 'labels' layers
+  tiles?: VectorTileOptions; // 'vector-tiles' layers
+  raster?: RasterTileOptions; // 'raster-tiles' layers
+}
+
+/**
+ * d3 symbol shapes for point markers
+ */
+export type PointShape = 'circle' | 'square' | 'triangle' | 'diamond' | 'star' | 'cross' | 'wye';
+
+/**
+ * Marker radius proportional to the square root of a property, so marker area follows the value
+ */
+export interface ProportionalRadius {
+  property: string; // key in feature.properties
+  maxRadius: number; // px at maxValue
+  maxValue?: number; // default: the largest value in the layer
+  minRadius?: number; // px floor so small values stay visible (default 2)
+}
+
+/**
+ * Marker drawn for each point. Sizes are in screen pixels and do not change with zoom.
+ */
+export interface PointSymbol {
+  // A d3 symbol, an image, or SVG path data drawn in a [-1, 1] box and scaled by the radius
+  shape?: PointShape | { icon: string; width: number; height: number } | { path: string };
+  radius?: StyleValue<number> | ProportionalRadius; // px (default 4)
+}
+
+/**
+ * Screen-space clustering, recomputed on every render so it follows zoom animations
+ */
+export interface PointClusterOptions {
+  distance?: number; // px; markers closer than this merge (default 40)
+  style?: LayerStyle; // cluster circles (default: blue with a white outline)
+}
+
+/**
+ * A marker as drawn on screen: one point, or a cluster of points
+ */
+export interface PointMarker {
+  feature: Feature; // the point feature, or a cluster feature (properties.cluster === true)
+  index: number; // index in the layer's features, -1 for clusters
+  x: number; // px
+  y: number; // px
+  radius: number; // px
+  count: number; // points in the marker (1 unless clustered)
+}
+
+/**
+ * Line width proportional to a property (linear from 0), e.g. passengers or trade volume
+ */
+export interface ProportionalWidth {
+  property: string; // key in feature.properties
+  maxWidth: number; // px at maxValue
+  maxValue?: number; // default: the largest value in the layer
+  minWidth?: number; // px floor so small flows stay visible (default 0.5)
+}
+
+/**
+ * Particles travelling along each arc from origin to destination
+ */
+export interface FlowParticles {
+  count?: number; // particles per arc (default 3)
+  duration?: number; // ms for a particle to travel the whole arc (default 3000)
+  radius?: number; // px (default 2)
+  color?: string; // default: the arc's stroke color
+}
+
+/**
+ * Options of a 'flows' layer. Each feature is a flow along the great circles between the
+ * positions of its LineString, usually just [origin, destination].
+ */
+export interface FlowOptions {
+  width?: StyleValue<number> | ProportionalWidth; // px (default: the style's strokeWidth)
+  // Draw-on progress 0-1: each arc is drawn from its origin up to this fraction of its length
+  // (default 1). Animation steps drive it with AnimationStep.draw.
+  progress?: number;
+  particles?: boolean | FlowParticles;
 }
 
+/**
+ * The drawn part of a flow
+ */
+export interface FlowArc {
+  feature: Feature;
+  index: number; // index in the layer's features
+  geometry: LineString; // from the origin to the current progress
+  width: number; // px
+}
+
+/**
+ * Outline drawn around each glyph so labels stay readable over the map
+ */
+export interface LabelHalo {
+  color?: string; // default '#fff'
+  width?: number; // px (default 2)
+}
+
+/**
+ * Options of a 'labels' layer. Each feature gets one label, anchored at its designated point
+ * or else at its position (Point features) or the centroid of its largest part. Labels are
+ * placed in priority order on every render; one overlapping a placed label is hidden.
+ */
+export interface LabelOptions {
+  text: string | FeatureStyleFunction<string>; // key in feature.properties, or a function
+  // Designated point: a key in feature.properties holding [longitude, latitude], or a function
+  position?: string | FeatureStyleFunction<[number, number] | undefined>;
+  // Higher values are placed first: a key in feature.properties or a function (default: data
+  // order)
+  priority?: string | FeatureStyleFunction<number>;
+  font?: string; // CSS font shorthand (default '12px sans-serif')
+  color?: StyleValue<string>; // default '#222'
+  halo?: boolean | LabelHalo; // default true
+  offset?: [number, number]; // px from the anchor to the center of the text (default [0, 0])
+  padding?: number; // px kept clear around each label (default 2)
+  collisions?: boolean; // false: draw every label, overlapping or not (default true)
+}
+
+/**
+ * A label as placed on screen
+ */
+export interface PlacedLabel {
+  feature: Feature;
+  index: number; // index in the layer's features
+  text: string;
+  x: number; // px, center of the text
+  y: number; // px
+  width: number; // px
+  height: number; // px
+}
+
+/**
+ * Loads the raw bytes of one Web Mercator tile; resolves undefined for a tile that doesn't
+ * exist. Implement it to read tiles from other stores (e.g. an MBTiles file through sql.js).
+ */
+export interface TileSource {
+  tile(z: number, x: number, y: number): Promise<ArrayBuffer | undefined>;
+  minZoom?: number; // zoom range of the tiles, when the source knows it
+  maxZoom?: number;
+}
+
+/**
+ * Where vector tiles come from: an XYZ URL template such as '/tiles/{z}/{x}/{y}.pbf' (a local
+ * tile server or a directory of tiles), a PMTiles archive read with range requests (a URL or a
+ * local File/Blob), or a custom TileSource
+ */
+export type VectorTileSource =
+  | { type: 'xyz'; url: string }
+  | { type: 'pmtiles'; url: string | Blob }
+  | TileSource;
+
+/**
+ * Options of a 'vector-tiles' layer. Mapbox Vector Tiles are decoded to lon/lat GeoJSON, so
+ * they are drawn through the map's projection like any GeoJSON layer. Each feature's MVT
+ * layer name is in properties._layer, e.g. for style functions.
+ */
+export interface VectorTileOptions {
+  source: VectorTileSource;
+  layers?: string[]; // MVT layers to draw (default: all)
+  minZoom?: number; // default: the source's, else 0
+  maxZoom?: number; // tiles are overzoomed past it (default: the source's, else 14)
+  tileSize?: number; // px a tile covers on screen at its zoom (default 512)
+  cacheSize?: number; // decoded tiles kept, least recently used dropped first (default 256)
+  onError?: (error: TileError) => void; // tiles that fail to load (drawn empty, not retried)
+}
+
+/**
+ * A tile layer failure: a tile that could not be loaded, or for raster layers the reprojection
+ * worker failing (frames are then reprojected on the main thread)
+ */
+export interface TileError {
+  error: unknown;
+  tile?: [number, number, number]; // [z, x, y] of the tile that failed
+}
+
+/**
+ * Decoded image pixels, row by row RGBA (an ImageData fits)
+ */
+export interface RasterPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Web Mercator image tiles by zoom/x/y; undefined when a tile doesn't exist
+ */
+export interface RasterTileSource {
+  tile(z: number, x: number, y: number): Promise<RasterPixels | undefined>;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+/**
+ * A north-up Web Mercator view as slippy-map tiles see it: the world is size px square with its
+ * top-left corner (tile 0/0/0) at translate, and zoom is the fractional tile zoom for the tile
+ * size (integer zooms show tiles at their size)
+ */
+export interface TileTransform {
+  zoom: number;
+  size: number;
+  translate: [number, number];
+}
+
+/**
+ * How MapContainerComponent shows the world: in the projection input ('projected'), or as a
+ * north-up Web Mercator slippy map over raster tiles ('slippy', see SlippyMapOptions)
+ */
+export type MapMode = 'projected' | 'slippy';
+
+/**
+ * Tiles of the slippy map mode
+ */
+export interface SlippyMapOptions {
+  // XYZ URL template of Web Mercator image tiles, e.g. a local tile server or a directory of
+  // tiles ('/streets/{z}/{x}/{y}.png'), or a custom RasterTileSource
+  source: string | RasterTileSource;
+  tileSize?: number; // px (default 256)
+  maxZoom?: number; // deepest zoom the map zooms in to (default 19)
+  attribution?: string; // credit for the tiles, shown in the corner
+}
+
+/**
+ * Options of a 'raster-tiles' layer. Web Mercator image tiles (e.g. shaded relief) are
+ * reprojected into the map's projection pixel by pixel in a Web Worker. Reprojected frames are
+ * cached by view; until a view's frame is ready (e.g. during animation) a low-resolution preview
+ * is drawn instead. In a north-up Web Mercator (e.g. the 'slippy' MapMode) nothing needs
+ * reprojecting: tiles of the nearest integer zoom are drawn as they are, scaled to the view.
+ */
+export interface RasterTileOptions {
+  // An XYZ URL template such as '/relief/{z}/{x}/{y}.png' (a local tile server or a directory
+  // of tiles; other origins must allow CORS), or a custom RasterTileSource
+  source: string | RasterTileSource;
+  minZoom?: number; // default: the source's, else 0
+  maxZoom?: number; // tiles are overzoomed past it (default: the source's, else 18)
+  tileSize?: number; // px a tile covers on screen at its zoom (default 256)
+  cacheSize?: number; // decoded tiles kept, least recently used dropped first (default 128)
+  previewResolution?: number; // fraction of the full resolution of previews (default 0.25)
+  // Tiles that fail to load (drawn as missing, not retried) and a failed reprojection worker
+  onError?: (error: TileError) => void;
+}
+
+/**
+ * Graticule layer: minor and major meridians and parallels
+ */
+export interface GraticuleOptions {
+  step?: [number, number]; // minor line spacing [longitude, latitude] in degrees (default [10, 10])
+  majorStep?: [number, number]; // major line spacing (default [30, 30])
+  // [[west, south], [east, north]] covered by the lines (default: the whole globe, with minor
+  // parallels stopping at ±80°)
+  extent?: [[number, number], [number, number]];
+  precision?: number; // degrees between interpolated points along parallels (default 2.5)
+  stroke?: string; // minor lines (default '#aaa')
+  strokeWidth?: number; // default 0.3
+  majorStroke?: string; // default '#888'
+  majorStrokeWidth?: number; // default 0.6
+}
+
+/**
+ * Units of the scale bar: one bar, or a metric bar above an imperial one
+ */
+export type ScaleBarUnits = 'metric' | 'imperial' | 'both';
+
+export interface ScaleBarOptions {
+  units?: ScaleBarUnits; // default 'metric'
+  maxWidth?: number; // px the bar may take (default 120)
+  // Largest relative difference between the scale at the center and elsewhere in the viewport
+  // before the bar is flagged as only true near the center (default 0.1)
+  tolerance?: number;
+}
+
+/**
+ * One bar of a scale bar: a nice-rounded ground distance and its length on screen
+ */
+export interface ScaleBarLength {
+  distance: number; // in `unit`
+  unit: 'km' | 'm' | 'mi' | 'ft';
+  label: string; // e.g. '500 km'
+  width: number; // px
+}
+
+/**
+ * Scale bar for the current view, measured at the center of the viewport
+ */
+export interface ScaleBar {
+  lengths: ScaleBarLength[]; // metric first
+  variation: number; // largest relative scale difference from the center across the viewport
+  centerOnly: boolean; // variation exceeds the tolerance: the bar is only true near the center
+}
+
+/**
+ * Outline of the main map's viewport in a locator inset
+ */
+export interface LocatorOutlineStyle {
+  fill?: string; // default '#d62728'
+  fillOpacity?: number; // default 0.15
+  stroke?: string; // default '#d62728'
+  strokeWidth?: number; // px (default 1.5)
+}
+
+/**
+ * Styles drawn over hovered and selected features
+ */
+export interface HighlightStyle {
+  hover?: LayerStyle;
+  selected?: LayerStyle;
+}
+
+export type SelectionMode = 'none' | 'single' | 'multiple';
+
+/**
+ * Tooltip content: a template with {property} placeholders filled from feature.properties,
+ * or a function of the hovered feature
+ */
+export type TooltipTemplate = string | ((event: FeatureEvent) => string);
+
 export interface MapData {
   type: 'geojson' | 'vector-tile' | 'raster-tile';
   data: FeatureCollection;
@@ -42,3 +569,19 @@ export interface ZoomEvent {
   translate: [number, number];
   center: [number, number];
 }
+
+/**
+ * A feature under the pointer
+ */
+export interface FeatureHit {
+  feature: Feature;
+  layer: string;
+  coordinates: [number, number]; // [longitude, latitude] under the pointer
+}
+
+/**
+ * Payload of the featureHover, featureClick and featureLeave outputs
+ */
+export interface FeatureEvent extends FeatureHit {
+  point: [number, number]; // pixels relative to the map container
+}
@@ -0,0 +1,47 @@
+import { GeoPermissibleObjects } from 'd3-geo';
+import {
+  EasingName,
+  FlyToOptions,
+  GeoBounds,
+  ProjectionName,
+  ProjectionOptions,
+} from './map.types';
+
+/**
+ * Current version of the story file format
+ */
+export const STORY_FORMAT_VERSION = 1;
+
+/**
+ * A tour authored as data (JSON Schema: models/story.schema.json).
+ * Loaded with StoryLoaderService into an AnimationSequence.
+ */
+export interface StoryDocument {
+  $schema?: string;
+  version: typeof STORY_FORMAT_VERSION;
+  title?: string;
+  description?: string;
+  loop?: boolean;
+  loopCount?: number;
+  loopDelay?: number; // ms
+  steps: StoryStep[];
+}
+
+/**
+ * One step of a story; the JSON counterpart of AnimationStep
+ */
+export interface StoryStep {
+  label?: string;
+  caption?: string;
+  extent?: { center: [number, number]; scale: number }; // [longitude, latitude]
+  fit?: { bounds?: GeoBounds; geometry?: GeoPermissibleObjects; padding?: number };
+  duration: number; // ms
+  easing?: EasingName;
+  delay?: number; // ms
+  hold?: number; // ms
+  flyTo?: boolean | FlyToOptions;
+  projection?: ProjectionName | (string & {});
+  projectionOptions?: ProjectionOptions;
+  layers?: Record<string, boolean>;
+  draw?: string[]; // flows layers drawn on during the step
+}
@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { EasingName } from '../models/map.types';
+import { AnimationControllerService, resolveEasing } from './animation-controller.service';
+import { AnimationScheduler, VirtualAnimationScheduler } from './animation-scheduler.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+
+describe('AnimationControllerService', () => {
+  let scheduler: VirtualAnimationScheduler;
+  let geoZoom: GeoZoomService;
+  let controller: AnimationControllerService;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    scheduler = new VirtualAnimationScheduler();
+    TestBed.configureTestingModule({
+      providers: [...MAP_INSTANCE_PROVIDERS, { provide: AnimationScheduler, useValue: scheduler }],
+    });
+    geoZoom = TestBed.inject(GeoZoomService);
+    controller = TestBed.inject(AnimationControllerService);
+
+    element = document.createElement('div');
+    const projection = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+    geoZoom.init(element, projection, 960, 600);
+  });
+
+  afterEach(() => {
+    geoZoom.destroy(element);
+  });
+
+  it('should animate an extent on the virtual clock', () => {
+    let done = false;
+    controller.animateToExtent(element, { center: [0, 0], scale: 3 }, 1000, () => (done = true), {
+      easing: d3.easeLinear,
+    });
+
+    scheduler.advance(500);
+    expect(geoZoom.getCurrentState().scale).toBeCloseTo(2, 1);
+    expect(done).toBe(false);
+
+    scheduler.flush();
+    expect(geoZoom.getCurrentState().scale).toBeCloseTo(3, 5);
+    expect(done).toBe(true);
+  });
+
+  it('should freeze mid-step on pause and finish the remaining time on resume', () => {
+    controller.animateToExtent(element, { center: [0, 0], scale: 3 }, 1000, undefined, {
+      easing: d3.easeLinear,
+    });
+    scheduler.advance(250);
+    controller.pause();
+    const paused = geoZoom.getCurrentState().scale;
+
+    scheduler.advance(5000);
+    expect(geoZoom.getCurrentState().scale).toBe(paused);
+    expect(controller.isAnimationPaused()).toBe(true);
+
+    controller.resume(element);
+    scheduler.advance(500);
+    expect(geoZoom.getCurrentState().scale).toBeCloseTo(2.5, 1);
+  });
+
+  it('should only resolve easings by their own names', () => {
+    expect(resolveEasing('linear')).toBe(d3.easeLinear);
+    expect(() => resolveEasing('toString' as EasingName)).toThrowError(/Unknown easing/);
+  });
+
+  it('should render any instant of a sequence with seek', () => {
+    controller.loadSequence({
+      steps: [{ extent: { center: [90, 0], scale: 2 }, duration: 1000, easing: 'linear', hold: 0 }],
+    });
+    expect(controller.getDuration()).toBe(1000);
+
+    controller.seek(500);
+    expect(geoZoom.getCurrentState().center[0]).toBeCloseTo(45, 5);
+    expect(geoZoom.getCurrentState().scale).toBeCloseTo(1.5, 5);
+
+    controller.seekToProgress(1);
+    expect(geoZoom.getCurrentState().center[0]).toBeCloseTo(90, 5);
+  });
+
+  it('should draw layers on over their step', () => {
+    const reported: Record<string, number>[] = [];
+    controller.onLayerProgress.subscribe((progress) => reported.push(progress));
+
+    controller.loadSequence({
+      steps: [
+        { extent: { center: [0, 0], scale: 2 }, duration: 1000, hold: 0 },
+        {
+          extent: { center: [0, 0], scale: 1 },
+          duration: 1000,
+          easing: 'linear',
+          draw: ['routes'],
+        },
+      ],
+    });
+    controller.seek(500);
+    controller.seek(1500);
+    controller.seek(2000);
+
+    // Hidden until its step starts, then drawn with the step's easing
+    expect(reported.map((progress) => progress['routes'])).toEqual([0, 0, 0.5, 1]);
+  });
+
+  it('should keep a slippy map on its Web Mercator through projection steps', () => {
+    const mercator = d3
+      .geoMercator()
+      .scale(960 / (2 * Math.PI))
+      .translate([480, 300]);
+    geoZoom.setProjection(mercator, 'rotate-lambda', false);
+    geoZoom.setSlippy(true);
+
+    controller.loadSequence({
+      steps: [
+        { projection: 'orthographic', extent: { center: [10, 40], scale: 2 }, duration: 1000 },
+      ],
+    });
+    controller.seek(1000);
+
+    // Only the camera moved: the world is twice the 960 px viewport across, zoom log2(1920 / 256)
+    expect(geoZoom.getProjection()).toBe(mercator);
+    expect(geoZoom.getCurrentState().center[0]).toBeCloseTo(10, 5);
+    expect(geoZoom.getTileTransform()!.zoom).toBeCloseTo(Math.log2(7.5), 5);
+    expect(geoZoom.scaleForTileZoom(3)).toBeCloseTo(2048 / 960, 5);
+  });
+});
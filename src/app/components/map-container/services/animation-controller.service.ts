@@ -1,31 +1,173 @@
 import { Injectable } from '@angular/core';
 import * as d3 from 'd3';
 import { Subject } from 'rxjs';
-import { AnimationConfig, MapExtent } from '../models/map.types';
-import { GeoZoomService } from './geo-zoom.service';
+import {
+  AnimationConfig,
+  CameraTransitionOptions,
+  EasingFunction,
+  EasingName,
+  FitTarget,
+  MapExtent,
+  ProjectionInput,
+  ProjectionOptions,
+} from '../models/map.types';
+import { AnimationScheduler } from './animation-scheduler.service';
+import { CameraInterpolator, GeoZoomService, ProjectionSnapshot } from './geo-zoom.service';
+import { ProjectionRegistryService } from './projection-registry.service';
 
 export interface AnimationStep {
-  extent: MapExtent;
+  extent?: MapExtent;
+  // Fit bounds or geometry instead of a fixed extent (takes precedence over extent)
+  fit?: FitTarget;
   duration: number;
   label?: string;
+  caption?: string; // text shown over the map while the step is current
+  // Layer visibility from this step on, by layer name (e.g. { tissot: true })
+  layers?: Record<string, boolean>;
+  // Flows layers drawn on (progress 0 to 1) during this step's move, with the step's easing
+  draw?: string[];
+  easing?: EasingName | EasingFunction; // default 'cubicInOut'
+  delay?: number; // ms to wait before the step starts moving (default 0)
+  hold?: number; // ms to dwell after the step before the next one (default 500)
+  // Smooth zoom-pan path: zoom out, travel, zoom back in
+  flyTo?: CameraTransitionOptions['flyTo'];
+  // Morph into this projection while moving to the extent
+  projection?: ProjectionInput;
+  projectionOptions?: ProjectionOptions;
 }
 
 export interface AnimationSequence {
   steps: AnimationStep[];
   loop?: boolean;
+  loopCount?: number; // total plays; implies looping (default: forever when loop is true)
+  loopDelay?: number; // ms between the end of one play and the next (default 1000)
+}
+
+/**
+ * Reported when the current step changes (including when seeking)
+ */
+export interface AnimationStepChange {
+  step: number; // 1-based
+  total: number;
+  label?: string;
+  caption?: string;
+  // Layer visibility accumulated from the first step up to this one
+  layers: Record<string, boolean>;
+}
+
+/**
+ * Playback position reported on every rendered frame
+ */
+export interface AnimationProgress {
+  time: number; // ms since the start of the sequence
+  duration: number; // total ms (Infinity for endless loops)
+  progress: number; // 0-1 over the sequence (over the current play for endless loops)
+  step: number; // 1-based
+  total: number;
+  play: number; // 1-based
+  label?: string;
+}
+
+/**
+ * A stretch of the timeline: pre-delay, move, or hold of one step
+ */
+interface TimelineSegment {
+  kind: 'delay' | 'move' | 'hold';
+  step: number; // 0-based
+  start: number; // ms from the start of the play
+  end: number;
+  from: MapExtent;
+  to: MapExtent;
+  fromProjection: ProjectionSnapshot;
+  toProjection: ProjectionSnapshot; // differs from fromProjection for morphs
+  easing: EasingFunction;
+  camera?: CameraInterpolator; // moves within one projection
+}
+
+/**
+ * One play through the steps
+ */
+interface PlayTimeline {
+  segments: TimelineSegment[];
+  duration: number;
+  end: MapExtent;
+  endProjection: ProjectionSnapshot;
+}
+
+/**
+ * A whole sequence: the first play starts from the view at playSequence(); repeat plays
+ * start where the previous play ended and are each preceded by the loop delay
+ */
+interface SequenceTimeline {
+  first: PlayTimeline;
+  repeat?: PlayTimeline;
+  plays: number;
+  loopDelay: number;
+  duration: number;
+}
+
+export const DEFAULT_STEP_HOLD = 500;
+export const DEFAULT_LOOP_DELAY = 1000;
+
+/**
+ * Easing curves available by name in AnimationStep.easing
+ */
+export const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: d3.easeLinear,
+  quadIn: d3.easeQuadIn,
+  quadOut: d3.easeQuadOut,
+  quadInOut: d3.easeQuadInOut,
+  cubicIn: d3.easeCubicIn,
+  cubicOut: d3.easeCubicOut,
+  cubicInOut: d3.easeCubicInOut,
+  sinIn: d3.easeSinIn,
+  sinOut: d3.easeSinOut,
+  sinInOut: d3.easeSinInOut,
+  expIn: d3.easeExpIn,
+  expOut: d3.easeExpOut,
+  expInOut: d3.easeExpInOut,
+  circleIn: d3.easeCircleIn,
+  circleOut: d3.easeCircleOut,
+  circleInOut: d3.easeCircleInOut,
+  backIn: d3.easeBackIn,
+  backOut: d3.easeBackOut,
+  backInOut: d3.easeBackInOut,
+  elasticOut: d3.easeElasticOut,
+  bounceOut: d3.easeBounceOut,
+};
+
+/**
+ * Resolve an easing name or function (undefined falls back to cubicInOut)
+ */
+export function resolveEasing(easing?: EasingName | EasingFunction): EasingFunction {
+  if (typeof easing === 'function') return easing;
+  if (easing === undefined) return d3.easeCubicInOut;
+
+  // Own names only: 'toString' or 'constructor' are inherited, not easings
+  const resolved = Object.hasOwn(EASINGS, easing) ? EASINGS[easing] : undefined;
+  if (!resolved) {
+    throw new Error(`Unknown easing "${easing}". Available: ${Object.keys(EASINGS).join(', ')}`);
+  }
+  return resolved;
 }
 
 /**
  * Animation Controller Service
- * Handles programmatic animations between map extents
+ * Handles programmatic animations between map extents.
+ * Sequences are compiled into a timeline so the map state is a function of time:
+ * playback advances a clock, and seek() can render any instant.
  */
-@Injectable({
-  providedIn: 'root',
-})
+@Injectable()
 export class AnimationControllerService {
   private currentSequence?: AnimationSequence;
-  private currentStepIndex = 0;
+  private timeline?: SequenceTimeline;
+  private currentTime = 0;
+  private currentStepIndex = -1;
+  private playbackRate = 1;
   private isPlaying = false;
+  private paused = false;
+  private frameId?: number;
+  private lastTickTime = 0;
   private frameCount = 0;
   private lastFrameTime = 0;
   private fps = 0;
@@ -33,54 +175,299 @@ export class AnimationControllerService {
   // Observables
   public onAnimationStart = new Subject<void>();
   public onAnimationEnd = new Subject<void>();
-  public onStepChange = new Subject<{ step: number; total: number }>();
+  // Emitted by stop(): the stopped sequence's layer visibility and draw-on progress no longer
+  // apply
+  public onStop = new Subject<void>();
+  public onStepChange = new Subject<AnimationStepChange>();
+  public onProgress = new Subject<AnimationProgress>();
+  // Draw-on progress of the layers named in step.draw, emitted before each frame is shown
+  public onLayerProgress = new Subject<Record<string, number>>();
   public onFpsUpdate = new Subject<number>();
 
-  constructor(private geoZoomService: GeoZoomService) {}
+  constructor(
+    private geoZoomService: GeoZoomService,
+    private projectionRegistry: ProjectionRegistryService,
+    private scheduler: AnimationScheduler
+  ) {}
 
   /**
-   * Play an animation sequence
+   * Play an animation sequence from the current view
    */
   playSequence(element: Element, sequence: AnimationSequence): void {
-    this.currentSequence = sequence;
-    this.currentStepIndex = 0;
-    this.isPlaying = true;
+    if (!this.loadSequence(sequence)) return;
 
     this.onAnimationStart.next();
-    this.executeStep(element);
+    this.startPlayback();
   }
 
   /**
-   * Execute a single animation step
+   * Compile a sequence and show its first frame without playing it, so it can be driven
+   * with seek() (e.g. by a scrubber or frame export). Returns false before the map is ready.
    */
-  private executeStep(element: Element): void {
-    if (!this.currentSequence || !this.isPlaying) return;
+  loadSequence(sequence: AnimationSequence): boolean {
+    this.stop();
 
-    const step = this.currentSequence.steps[this.currentStepIndex];
-    if (!step) {
-      this.handleSequenceEnd(element);
-      return;
+    const timeline = this.buildTimeline(sequence);
+    if (!timeline) return false;
+
+    this.currentSequence = sequence;
+    this.timeline = timeline;
+    this.currentTime = 0;
+    this.renderAt(0);
+    return true;
+  }
+
+  /**
+   * Compile a sequence into a timeline. Fit targets, projections and fly-to durations
+   * are resolved here so every instant is reproducible.
+   */
+  private buildTimeline(sequence: AnimationSequence): SequenceTimeline | undefined {
+    const projection = this.geoZoomService.getProjectionSnapshot();
+    if (!projection) return undefined;
+
+    const { center, scale } = this.geoZoomService.getCurrentState();
+    const first = this.buildPlay(sequence.steps, { center, scale }, projection);
+    const loopDelay = sequence.loopDelay ?? DEFAULT_LOOP_DELAY;
+    let plays = sequence.loopCount ?? (sequence.loop ? Infinity : 1);
+
+    let repeat: PlayTimeline | undefined;
+    if (plays > 1) {
+      repeat = this.buildPlay(sequence.steps, first.end, first.endProjection);
+      // A zero-length loop can never advance
+      if (repeat.duration + loopDelay <= 0) {
+        plays = 1;
+        repeat = undefined;
+      }
     }
 
-    this.onStepChange.next({
-      step: this.currentStepIndex + 1,
-      total: this.currentSequence.steps.length,
+    const duration = repeat
+      ? first.duration + (plays - 1) * (loopDelay + repeat.duration)
+      : first.duration;
+
+    return { first, repeat, plays, loopDelay, duration };
+  }
+
+  /**
+   * Lay out delay, move and hold segments for one play through the steps
+   */
+  private buildPlay(
+    steps: AnimationStep[],
+    start: MapExtent,
+    startProjection: ProjectionSnapshot
+  ): PlayTimeline {
+    const segments: TimelineSegment[] = [];
+    const [width, height] = this.geoZoomService.getViewportSize();
+    let time = 0;
+    let extent = start;
+    let projection = startProjection;
+
+    steps.forEach((step, index) => {
+      const easing = resolveEasing(step.easing);
+      const hold = (from: number, duration: number, kind: 'delay' | 'hold') => {
+        segments.push({
+          kind,
+          step: index,
+          start: from,
+          end: from + duration,
+          from: extent,
+          to: extent,
+          fromProjection: projection,
+          toProjection: projection,
+          easing,
+        });
+      };
+
+      const delay = step.delay ?? 0;
+      if (delay > 0) {
+        hold(time, delay, 'delay');
+        time += delay;
+      }
+
+      // Slippy maps stay on their Web Mercator, so steps' projections are ignored
+      const toProjection =
+        step.projection && !this.geoZoomService.isSlippy()
+          ? this.geoZoomService.captureProjection(
+              this.projectionRegistry.create(step.projection, width, height, step.projectionOptions)
+            )
+          : projection;
+      const target = step.fit
+        ? this.geoZoomService.fitExtent(step.fit, toProjection)
+        : step.extent ?? extent;
+      const camera =
+        toProjection === projection
+          ? this.geoZoomService.createCameraInterpolator(extent, target, { flyTo: step.flyTo })
+          : undefined;
+      const duration = camera?.duration ?? step.duration;
+
+      segments.push({
+        kind: 'move',
+        step: index,
+        start: time,
+        end: time + duration,
+        from: extent,
+        to: target,
+        fromProjection: projection,
+        toProjection,
+        easing,
+        camera,
+      });
+      time += duration;
+      extent = target;
+      projection = toProjection;
+
+      const dwell = step.hold ?? DEFAULT_STEP_HOLD;
+      if (dwell > 0) {
+        hold(time, dwell, 'hold');
+        time += dwell;
+      }
     });
 
-    // Start FPS monitoring
-    this.startFpsMonitoring();
+    return { segments, duration: time, end: extent, endProjection: projection };
+  }
+
+  /**
+   * Render the sequence at a time (ms) and report progress
+   */
+  private renderAt(time: number): void {
+    const timeline = this.timeline;
+    const sequence = this.currentSequence;
+    if (!timeline || !sequence) return;
+
+    // Find the play and the time within it; negative local time is the loop delay
+    let play = timeline.first;
+    let playIndex = 0;
+    let local = time;
+    if (timeline.repeat && time >= timeline.first.duration) {
+      const period = timeline.loopDelay + timeline.repeat.duration;
+      const elapsed = time - timeline.first.duration;
+      play = timeline.repeat;
+      playIndex = Math.min(1 + Math.floor(elapsed / period), timeline.plays - 1);
+      local = Math.min(elapsed - (playIndex - 1) * period - timeline.loopDelay, play.duration);
+    }
+
+    const segment =
+      play.segments.find((candidate) => Math.max(local, 0) < candidate.end) ??
+      play.segments[play.segments.length - 1];
+    // The loop delay still shows the previous play's end
+    this.onLayerProgress.next(
+      this.layerProgress(play, sequence.steps, local < 0 ? play.duration : local)
+    );
+    if (segment) {
+      this.applySegment(segment, Math.max(local, 0));
+    }
 
-    // Animate to the extent
-    this.animateToExtent(element, step.extent, step.duration, () => {
-      // Stop FPS monitoring
-      this.stopFpsMonitoring();
+    const step = local < 0 ? sequence.steps.length - 1 : segment?.step ?? 0;
+    if (step !== this.currentStepIndex) {
+      this.currentStepIndex = step;
+      const current = sequence.steps[step];
+      this.onStepChange.next({
+        step: step + 1,
+        total: sequence.steps.length,
+        label: current?.label,
+        caption: current?.caption,
+        layers: Object.assign({}, ...sequence.steps.slice(0, step + 1).map((item) => item.layers)),
+      });
+    }
 
-      // Move to next step
-      this.currentStepIndex++;
-      setTimeout(() => this.executeStep(element), 500); // Brief pause between steps
+    const finite = Number.isFinite(timeline.duration);
+    this.onProgress.next({
+      time,
+      duration: timeline.duration,
+      progress: finite
+        ? timeline.duration > 0
+          ? time / timeline.duration
+          : 1
+        : Math.max(local, 0) / (play.duration || 1),
+      step: step + 1,
+      total: sequence.steps.length,
+      play: playIndex + 1,
+      label: sequence.steps[step]?.label,
     });
   }
 
+  /**
+   * Draw-on progress of every layer drawn in a play at a time within it. Before its first draw
+   * step a layer is hidden (0); a later draw step of the same layer draws it again.
+   */
+  private layerProgress(
+    play: PlayTimeline,
+    steps: AnimationStep[],
+    local: number
+  ): Record<string, number> {
+    const progress: Record<string, number> = {};
+
+    for (const segment of play.segments) {
+      if (segment.kind !== 'move') continue;
+
+      const span = segment.end - segment.start;
+      const t = span > 0 ? Math.min(Math.max((local - segment.start) / span, 0), 1) : 1;
+      for (const layer of steps[segment.step].draw ?? []) {
+        if (!(layer in progress) || local >= segment.start) {
+          // Clamped, since some easings overshoot
+          progress[layer] = local < segment.start ? 0 : Math.min(Math.max(segment.easing(t), 0), 1);
+        }
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * Show a segment at a time within its play
+   */
+  private applySegment(segment: TimelineSegment, local: number): void {
+    const span = segment.end - segment.start;
+    const t = span > 0 ? Math.min(Math.max((local - segment.start) / span, 0), 1) : 1;
+
+    if (segment.fromProjection !== segment.toProjection && t < 1) {
+      this.geoZoomService.morphFrame(
+        segment.fromProjection,
+        segment.toProjection,
+        segment.from,
+        segment.to,
+        segment.easing(t)
+      );
+      return;
+    }
+
+    this.geoZoomService.showProjection(segment.toProjection);
+    this.geoZoomService.setView(segment.camera ? segment.camera(segment.easing(t)) : segment.to);
+  }
+
+  /**
+   * Start advancing the clock from the current time
+   */
+  private startPlayback(): void {
+    this.isPlaying = true;
+    this.lastTickTime = this.scheduler.now();
+    this.startFpsMonitoring();
+    this.frameId = this.scheduler.requestFrame(() => this.tick());
+  }
+
+  /**
+   * Advance the clock by the elapsed frame time (scaled by playbackRate) and render
+   */
+  private tick(): void {
+    if (!this.isPlaying || !this.timeline) return;
+
+    const now = this.scheduler.now();
+    const elapsed = (now - this.lastTickTime) * this.playbackRate;
+    this.lastTickTime = now;
+    this.recordFrame(now);
+
+    const duration = this.timeline.duration;
+    this.currentTime = Math.min(Math.max(this.currentTime + elapsed, 0), duration);
+    this.renderAt(this.currentTime);
+
+    const finished =
+      this.playbackRate > 0 ? this.currentTime >= duration : this.currentTime <= 0;
+    if (finished) {
+      this.handleSequenceEnd();
+      return;
+    }
+
+    this.frameId = this.scheduler.requestFrame(() => this.tick());
+  }
+
   /**
    * Animate to a specific map extent
    */
@@ -88,12 +475,34 @@ export class AnimationControllerService {
     element: Element,
     extent: MapExtent,
     duration: number,
-    callback?: () => void
+    callback?: () => void,
+    options: CameraTransitionOptions = {}
   ): void {
     const { center, scale } = extent;
 
     // Animate projection to center and scale
-    this.geoZoomService.animateTo(center, scale, duration, callback);
+    this.geoZoomService.animateTo(center, scale, duration, callback, options);
+  }
+
+  /**
+   * Animate from the current projection to another (e.g. equirectangular to orthographic)
+   * by interpolating projected coordinates. An extent moves the camera at the same time.
+   */
+  animateToProjection(
+    projection: ProjectionInput,
+    config: AnimationConfig,
+    options: { extent?: MapExtent; projectionOptions?: ProjectionOptions } = {},
+    callback?: () => void
+  ): void {
+    const [width, height] = this.geoZoomService.getViewportSize();
+    const target = this.projectionRegistry.create(
+      projection,
+      width,
+      height,
+      options.projectionOptions
+    );
+
+    this.geoZoomService.morphToProjection(target, options.extent, config, callback);
   }
 
   /**
@@ -107,68 +516,143 @@ export class AnimationControllerService {
     callback?: () => void
   ): void {
     const easing = config.easing || d3.easeCubicInOut;
-    const startTime = Date.now();
 
     const interpolateScale = d3.interpolateNumber(from.scale, to.scale);
-    const interpolateCenter = d3.interpolate(from.center, to.center);
+    const interpolateCenter = d3.geoInterpolate(from.center, to.center);
+
+    // Runs as a GeoZoomService transition so pause() and resume() apply to it
+    this.geoZoomService.runTransition(
+      config.duration,
+      (t) => {
+        const easedT = easing(t);
+        this.geoZoomService.setView({
+          scale: interpolateScale(easedT),
+          center: interpolateCenter(easedT),
+        });
+      },
+      callback
+    );
+  }
+
+  /**
+   * Handle sequence end - playback stops on the last frame so it can still be scrubbed
+   */
+  private handleSequenceEnd(): void {
+    this.pausePlayback();
+    this.onAnimationEnd.next();
+  }
 
-    const tick = () => {
-      const elapsed = Date.now() - startTime;
-      const t = Math.min(elapsed / config.duration, 1);
-      const easedT = easing(t);
+  /**
+   * Seek to a time in ms (clamped to the sequence) and render that instant
+   */
+  seek(time: number): void {
+    if (!this.timeline) return;
 
-      const currentScale = interpolateScale(easedT);
-      const currentCenter = interpolateCenter(easedT) as [number, number];
+    this.currentTime = Math.min(Math.max(time, 0), this.timeline.duration);
+    this.lastTickTime = this.scheduler.now();
+    this.renderAt(this.currentTime);
+  }
 
-      this.animateToExtent(element, { scale: currentScale, center: currentCenter }, 0);
+  /**
+   * Seek to a normalized position (0-1). Endless loops seek within the first play.
+   */
+  seekToProgress(progress: number): void {
+    if (!this.timeline) return;
 
-      if (t < 1) {
-        requestAnimationFrame(tick);
-      } else {
-        callback?.();
-      }
-    };
+    const span = Number.isFinite(this.timeline.duration)
+      ? this.timeline.duration
+      : this.timeline.first.duration;
+    this.seek(Math.min(Math.max(progress, 0), 1) * span);
+  }
 
-    requestAnimationFrame(tick);
+  /**
+   * Total duration of the current sequence in ms (Infinity for endless loops)
+   */
+  getDuration(): number {
+    return this.timeline?.duration ?? 0;
   }
 
   /**
-   * Handle sequence end
+   * Current playback position in ms
    */
-  private handleSequenceEnd(element: Element): void {
-    if (this.currentSequence?.loop) {
-      this.currentStepIndex = 0;
-      setTimeout(() => this.executeStep(element), 1000);
-    } else {
-      this.stop();
-      this.onAnimationEnd.next();
-    }
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Set the playback speed (1 = real time, 2 = double speed, negative plays backwards)
+   */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
   }
 
   /**
-   * Stop the current animation
+   * Get the playback speed
+   */
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  /**
+   * Stop the current animation (sequence or standalone transition)
    */
   stop(): void {
-    this.isPlaying = false;
-    this.currentStepIndex = 0;
-    this.stopFpsMonitoring();
+    this.pausePlayback();
+    this.paused = false;
+    this.geoZoomService.cancelTransition();
+    this.currentSequence = undefined;
+    this.timeline = undefined;
+    this.currentTime = 0;
+    this.currentStepIndex = -1;
+    this.onStop.next();
   }
 
   /**
-   * Pause the current animation
+   * Pause the current animation, freezing the camera mid-step (or mid-dwell)
    */
   pause(): void {
+    if (!this.isPlaying && !this.geoZoomService.hasTransition()) return;
+
+    this.pausePlayback();
+    this.geoZoomService.pauseTransition();
+    this.paused = true;
+  }
+
+  /**
+   * Stop advancing the clock, keeping the current frame
+   */
+  private pausePlayback(): void {
     this.isPlaying = false;
+    if (this.frameId !== undefined) {
+      this.scheduler.cancelFrame(this.frameId);
+      this.frameId = undefined;
+    }
+    this.stopFpsMonitoring();
   }
 
   /**
-   * Resume the paused animation
+   * Resume the paused animation from where it was frozen (from the start if it had finished)
    */
   resume(element: Element): void {
-    if (this.currentSequence && !this.isPlaying) {
-      this.isPlaying = true;
-      this.executeStep(element);
+    this.paused = false;
+    this.geoZoomService.resumeTransition();
+    if (!this.timeline || this.isPlaying) return;
+
+    const atEnd =
+      this.playbackRate > 0
+        ? this.currentTime >= this.timeline.duration
+        : this.currentTime <= 0;
+    if (atEnd) {
+      this.seek(this.playbackRate > 0 ? 0 : this.timeline.duration);
     }
+    this.startPlayback();
+  }
+
+  /**
+   * Check if the animation is paused (as opposed to finished or stopped)
+   */
+  isAnimationPaused(): boolean {
+    return this.paused;
   }
 
   /**
@@ -176,20 +660,15 @@ export class AnimationControllerService {
    */
   private startFpsMonitoring(): void {
     this.frameCount = 0;
-    this.lastFrameTime = performance.now();
-    this.monitorFps();
+    this.lastFrameTime = this.scheduler.now();
   }
 
   /**
-   * Monitor FPS during animation
+   * Count a rendered frame and report FPS every 500ms
    */
-  private monitorFps(): void {
-    if (!this.isPlaying) return;
-
-    const currentTime = performance.now();
+  private recordFrame(currentTime: number): void {
     this.frameCount++;
 
-    // Calculate FPS every 500ms
     if (currentTime - this.lastFrameTime >= 500) {
       this.fps = Math.round((this.frameCount * 1000) / (currentTime - this.lastFrameTime));
       this.onFpsUpdate.next(this.fps);
@@ -197,8 +676,6 @@ export class AnimationControllerService {
       this.frameCount = 0;
       this.lastFrameTime = currentTime;
     }
-
-    requestAnimationFrame(() => this.monitorFps());
   }
 
   /**
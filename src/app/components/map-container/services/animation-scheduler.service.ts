@@ -0,0 +1,164 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Animation Scheduler
+ * The clock and frame/timer queue used by the animation services. Inject it instead of
+ * calling performance.now(), requestAnimationFrame or setTimeout directly; tests swap in
+ * VirtualAnimationScheduler to step animations frame by frame:
+ *
+ *   providers: [{ provide: AnimationScheduler, useValue: new VirtualAnimationScheduler() }]
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: () => new BrowserAnimationScheduler(),
+})
+export abstract class AnimationScheduler {
+  /** Current time in ms */
+  abstract now(): number;
+  /** Run a callback before the next frame is painted */
+  abstract requestFrame(callback: (time: number) => void): number;
+  abstract cancelFrame(id: number): void;
+  /** Run a callback after a delay in ms */
+  abstract setTimeout(callback: () => void, delay: number): number;
+  abstract clearTimeout(id: number): void;
+}
+
+/**
+ * Real-time scheduler backed by performance.now, requestAnimationFrame and setTimeout
+ */
+export class BrowserAnimationScheduler extends AnimationScheduler {
+  now(): number {
+    return performance.now();
+  }
+
+  requestFrame(callback: (time: number) => void): number {
+    return requestAnimationFrame(callback);
+  }
+
+  cancelFrame(id: number): void {
+    cancelAnimationFrame(id);
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    return window.setTimeout(callback, delay);
+  }
+
+  clearTimeout(id: number): void {
+    window.clearTimeout(id);
+  }
+}
+
+/**
+ * Manually driven scheduler: time only moves when advanced, and frames fire on a fixed
+ * interval (60fps by default), so animations are reproducible frame by frame
+ */
+export class VirtualAnimationScheduler extends AnimationScheduler {
+  private time = 0;
+  private nextId = 1;
+  private frames = new Map<number, (time: number) => void>();
+  private timers = new Map<number, { due: number; callback: () => void }>();
+
+  constructor(public frameInterval = 1000 / 60) {
+    super();
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: (time: number) => void): number {
+    const id = this.nextId++;
+    this.frames.set(id, callback);
+    return id;
+  }
+
+  cancelFrame(id: number): void {
+    this.frames.delete(id);
+  }
+
+  setTimeout(callback: () => void, delay: number): number {
+    const id = this.nextId++;
+    this.timers.set(id, { due: this.time + Math.max(delay, 0), callback });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.timers.delete(id);
+  }
+
+  /**
+   * Advance the clock by ms, firing due timers and frames in time order
+   */
+  advance(ms: number): void {
+    const end = this.time + ms;
+
+    for (;;) {
+      const timer = this.nextTimer();
+      const frameTime = this.frames.size > 0 ? this.nextFrameTime() : Infinity;
+      const next = Math.min(timer?.due ?? Infinity, frameTime);
+      if (next > end) break;
+
+      this.time = next;
+      if (timer && timer.due <= frameTime) {
+        this.timers.delete(timer.id);
+        timer.callback();
+      } else {
+        this.runFrame();
+      }
+    }
+
+    this.time = end;
+  }
+
+  /**
+   * Advance to the next frame boundary and fire the frame callbacks queued before it
+   */
+  nextFrame(): void {
+    this.advance(this.nextFrameTime() - this.time);
+  }
+
+  /**
+   * Fire frames and timers until nothing is pending. Throws after maxFrames frames,
+   * e.g. for a loop that never settles.
+   */
+  flush(maxFrames = 10000): void {
+    for (let frame = 0; this.hasPending(); frame++) {
+      if (frame >= maxFrames) {
+        throw new Error(`Animations still pending after ${maxFrames} frames`);
+      }
+      const timer = this.nextTimer();
+      const frameTime = this.frames.size > 0 ? this.nextFrameTime() : Infinity;
+      this.advance(Math.min(timer?.due ?? Infinity, frameTime) - this.time);
+    }
+  }
+
+  /**
+   * Check whether any frame or timer callbacks are queued
+   */
+  hasPending(): boolean {
+    return this.frames.size > 0 || this.timers.size > 0;
+  }
+
+  private nextFrameTime(): number {
+    return (Math.floor(this.time / this.frameInterval + 1e-9) + 1) * this.frameInterval;
+  }
+
+  private nextTimer(): { id: number; due: number; callback: () => void } | undefined {
+    let next: { id: number; due: number; callback: () => void } | undefined;
+    for (const [id, timer] of this.timers) {
+      if (!next || timer.due < next.due) {
+        next = { id, ...timer };
+      }
+    }
+    return next;
+  }
+
+  /**
+   * Fire the frame callbacks queued so far; callbacks they queue wait for the next frame
+   */
+  private runFrame(): void {
+    const callbacks = Array.from(this.frames.values());
+    this.frames.clear();
+    callbacks.forEach((callback) => callback(this.time));
+  }
+}
@@ -0,0 +1,77 @@
+import { TestBed } from '@angular/core/testing';
+import { Feature, FeatureCollection } from 'geojson';
+import { LayerStyle } from '../models/map.types';
+import { DEFAULT_STYLE, FeatureStyleService } from './feature-style.service';
+
+const feature = (properties: Record<string, unknown>): Feature => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'Point', coordinates: [0, 0] },
+});
+
+const DATA: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    feature({ value: 1, region: 'north' }),
+    feature({ value: 5, region: 'south' }),
+    feature({ value: '9', region: 'north' }),
+    feature({ value: null }),
+  ],
+};
+
+describe('FeatureStyleService', () => {
+  let featureStyle: FeatureStyleService;
+
+  const fills = (style: LayerStyle) => {
+    const compiled = featureStyle.compile(style, DATA);
+    return DATA.features.map((item, i) => compiled(item, i).fill);
+  };
+
+  beforeEach(() => {
+    featureStyle = TestBed.inject(FeatureStyleService);
+  });
+
+  it('should classify numeric properties', () => {
+    const colors = ['#000', '#888', '#fff'];
+
+    expect(fills({ fill: { type: 'quantize', property: 'value', colors } })).toEqual([
+      '#000',
+      '#888',
+      '#fff',
+      '#ccc',
+    ]);
+    expect(
+      fills({ fill: { type: 'threshold', property: 'value', thresholds: [2], colors: ['a', 'b'] } })
+    ).toEqual(['a', 'b', 'b', '#ccc']);
+    expect(
+      fills({ fill: { type: 'quantile', property: 'value', colors, unknown: 'none' } })
+    ).toEqual(['#000', '#888', '#fff', 'none']);
+  });
+
+  it('should color categories and resolve style functions', () => {
+    const compiled = featureStyle.compile(
+      {
+        fill: { type: 'categorical', property: 'region', colors: ['red', 'blue'] },
+        strokeWidth: (item) => (item.properties?.['region'] === 'north' ? 2 : 1),
+      },
+      DATA
+    );
+
+    expect(DATA.features.map((item, i) => compiled(item, i))).toEqual([
+      { ...DEFAULT_STYLE, fill: 'red', strokeWidth: 2 },
+      { ...DEFAULT_STYLE, fill: 'blue', strokeWidth: 1 },
+      { ...DEFAULT_STYLE, fill: 'red', strokeWidth: 2 },
+      { ...DEFAULT_STYLE, fill: '#ccc', strokeWidth: 1 },
+    ]);
+  });
+
+  it('should interpolate color stops into classes', () => {
+    const ramp = featureStyle.colorRamp(['#ffffff', '#000000'], 3);
+
+    expect(ramp).toHaveLength(3);
+    expect([ramp[0], ramp[2]]).toEqual(['#fff', '#000']);
+    // OKLab midpoint is perceptually mid-gray, darker than the sRGB midpoint #808080
+    expect(ramp[1]).not.toBe('#808080');
+    expect(() => featureStyle.colorRamp([], 3)).toThrowError(/at least one color/);
+  });
+});
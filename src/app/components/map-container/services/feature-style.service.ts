@@ -0,0 +1,190 @@
+import { Injectable } from '@angular/core';
+import Color from 'colorjs.io';
+import * as d3 from 'd3';
+import { Feature, FeatureCollection } from 'geojson';
+import {
+  ColorScale,
+  ColorSpace,
+  FeatureStyleFunction,
+  LayerStyle,
+  ResolvedStyle,
+  StyleValue,
+} from '../models/map.types';
+
+/**
+ * Resolves the style of each feature in a layer
+ */
+export type CompiledStyle = (feature: Feature, index: number) => ResolvedStyle;
+
+export const DEFAULT_STYLE: ResolvedStyle = {
+  fill: '#ccc',
+  stroke: '#333',
+  strokeWidth: 0.5,
+  fillOpacity: 1,
+};
+
+const DEFAULT_UNKNOWN_COLOR = '#ccc';
+const DEFAULT_COLOR_SPACE: ColorSpace = 'oklab';
+
+/**
+ * Feature Style Service
+ * Compiles layer styles (constants, style functions and property-driven color scales) into one
+ * function per layer, so the SVG and canvas renderers resolve every feature the same way
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FeatureStyleService {
+  // Scales depend on the data (quantile breaks, categories), so compile once per style and data
+  private cache = new WeakMap<LayerStyle, WeakMap<FeatureCollection, CompiledStyle>>();
+
+  /**
+   * Compile a layer style against the layer's data
+   */
+  compile(style: LayerStyle | undefined, data: FeatureCollection): CompiledStyle {
+    if (!style) {
+      return () => DEFAULT_STYLE;
+    }
+
+    let compiled = this.cache.get(style)?.get(data);
+    if (!compiled) {
+      compiled = this.compileStyle(style, data.features);
+      const byData = this.cache.get(style) ?? new WeakMap<FeatureCollection, CompiledStyle>();
+      byData.set(data, compiled);
+      this.cache.set(style, byData);
+    }
+    return compiled;
+  }
+
+  /**
+   * Class colors for a number of classes. Colors are used as-is when there is one per class,
+   * otherwise they are stops interpolated evenly in the given color space.
+   */
+  colorRamp(colors: string[], classes: number, space: ColorSpace = DEFAULT_COLOR_SPACE): string[] {
+    if (colors.length === 0) {
+      throw new Error('A color scale needs at least one color');
+    }
+    if (!Number.isInteger(classes) || classes < 1) {
+      throw new Error(`Invalid number of color classes: ${classes}`);
+    }
+    if (colors.length === classes) {
+      return [...colors];
+    }
+    if (colors.length === 1) {
+      return new Array(classes).fill(colors[0]);
+    }
+
+    const segments = d3
+      .pairs(colors)
+      .map(([from, to]) => Color.range(from, to, { space, outputSpace: 'srgb' }));
+
+    return d3.range(classes).map((k) => {
+      // Position along the stops: 0 = first color, colors.length - 1 = last
+      const t = classes === 1 ? 0.5 : k / (classes - 1);
+      const position = t * (colors.length - 1);
+      const segment = Math.min(Math.floor(position), segments.length - 1);
+      return segments[segment](position - segment)
+        .toGamut()
+        .toString({ format: 'hex' });
+    });
+  }
+
+  private compileStyle(style: LayerStyle, features: Feature[]): CompiledStyle {
+    const fill = this.compileColor(style.fill, DEFAULT_STYLE.fill, features);
+    const stroke = this.compileColor(style.stroke, DEFAULT_STYLE.stroke, features);
+    const strokeWidth = style.strokeWidth ?? DEFAULT_STYLE.strokeWidth;
+    const fillOpacity = style.fillOpacity ?? DEFAULT_STYLE.fillOpacity;
+
+    // Constant styles resolve to one shared object
+    if ([fill, stroke, strokeWidth, fillOpacity].every((value) => typeof value !== 'function')) {
+      const resolved = { fill, stroke, strokeWidth, fillOpacity } as ResolvedStyle;
+      return () => resolved;
+    }
+
+    return (feature, index) => ({
+      fill: resolve(fill, feature, index),
+      stroke: resolve(stroke, feature, index),
+      strokeWidth: resolve(strokeWidth, feature, index),
+      fillOpacity: resolve(fillOpacity, feature, index),
+    });
+  }
+
+  private compileColor(
+    value: StyleValue<string> | ColorScale | undefined,
+    fallback: string,
+    features: Feature[]
+  ): StyleValue<string> {
+    if (value === undefined) return fallback;
+    if (typeof value === 'string' || typeof value === 'function') return value;
+    return this.compileColorScale(value, features);
+  }
+
+  /**
+   * Build the d3 scale for a ColorScale and return a per-feature color function
+   */
+  private compileColorScale(scale: ColorScale, features: Feature[]): FeatureStyleFunction<string> {
+    const unknown = scale.unknown ?? DEFAULT_UNKNOWN_COLOR;
+    const space = scale.interpolate ?? DEFAULT_COLOR_SPACE;
+    const property = (feature: Feature) => feature.properties?.[scale.property];
+
+    if (scale.type === 'categorical') {
+      const categories =
+        scale.categories ??
+        Array.from(new Set(features.map(property).filter((value) => value != null)));
+      const ordinal = d3
+        .scaleOrdinal<string | number, string>()
+        .domain(categories)
+        .range(this.colorRamp(scale.colors, Math.max(categories.length, 1), space))
+        .unknown(unknown);
+      return (feature) => ordinal(property(feature));
+    }
+
+    const numeric = (feature: Feature) => toNumber(property(feature));
+    let classify: (value: number) => string | undefined;
+
+    switch (scale.type) {
+      case 'quantize': {
+        const values = features.map(numeric).filter((value) => value !== undefined) as number[];
+        const [min = 0, max = 1] = scale.domain ?? d3.extent(values);
+        classify = d3
+          .scaleQuantize<string>()
+          .domain([min, max])
+          .range(this.colorRamp(scale.colors, scale.classes ?? scale.colors.length, space));
+        break;
+      }
+      case 'quantile': {
+        const values = features.map(numeric).filter((value) => value !== undefined) as number[];
+        classify = d3
+          .scaleQuantile<string>()
+          .domain(values)
+          .range(this.colorRamp(scale.colors, scale.classes ?? scale.colors.length, space));
+        break;
+      }
+      case 'threshold': {
+        const thresholds = [...scale.thresholds].sort((a, b) => a - b);
+        classify = d3
+          .scaleThreshold<number, string>()
+          .domain(thresholds)
+          .range(this.colorRamp(scale.colors, thresholds.length + 1, space));
+        break;
+      }
+    }
+
+    return (feature) => {
+      const value = numeric(feature);
+      return (value === undefined ? undefined : classify(value)) ?? unknown;
+    };
+  }
+}
+
+function resolve<T>(value: StyleValue<T>, feature: Feature, index: number): T {
+  return typeof value === 'function' ? (value as FeatureStyleFunction<T>)(feature, index) : value;
+}
+
+/**
+ * Read a property value as a finite number (numeric strings included)
+ */
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
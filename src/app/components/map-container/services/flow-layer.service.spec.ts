@@ -0,0 +1,87 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature } from 'geojson';
+import { MapLayer } from '../models/map.types';
+import { collection } from '../testing/geojson';
+import { FlowLayerService } from './flow-layer.service';
+
+const flow = (
+  origin: [number, number],
+  destination: [number, number],
+  passengers: number
+): Feature => ({
+  type: 'Feature',
+  properties: { passengers },
+  geometry: { type: 'LineString', coordinates: [origin, destination] },
+});
+
+describe('FlowLayerService', () => {
+  let flowLayers: FlowLayerService;
+
+  beforeEach(() => {
+    flowLayers = TestBed.inject(FlowLayerService);
+  });
+
+  it('should draw arcs on along the great circle', () => {
+    const london: [number, number] = [-0.13, 51.51];
+    const tokyo: [number, number] = [139.69, 35.69];
+    const layer: MapLayer = {
+      id: 'routes',
+      type: 'flows',
+      data: collection(flow(london, tokyo, 400), flow(tokyo, london, 100), flow(london, london, 0)),
+      flow: { width: { property: 'passengers', maxWidth: 8, minWidth: 1 }, progress: 0.5 },
+    };
+
+    const arcs = flowLayers.arcs(layer);
+    expect(arcs.map((arc) => arc.width)).toEqual([8, 2, 1]);
+
+    // Half way is the great-circle midpoint (over Siberia), not the midpoint in lon/lat
+    const [, end] = arcs[0].geometry.coordinates;
+    const midpoint = d3.geoInterpolate(london, tokyo)(0.5);
+    expect(end[0]).toBeCloseTo(midpoint[0], 6);
+    expect(end[1]).toBeCloseTo(midpoint[1], 6);
+    expect(end[1]).toBeGreaterThan(60);
+
+    expect(flowLayers.arcs({ ...layer, flow: { progress: 0 } })).toEqual([]);
+  });
+
+  it('should cut arcs geographically, so arcs split by the projection draw on as one', () => {
+    const route = flow([170, 0], [-150, 0], 1);
+    const layer: MapLayer = {
+      id: 'routes',
+      type: 'flows',
+      data: collection(route),
+      flow: { progress: 0.75 },
+    };
+    const [arc] = flowLayers.arcs(layer);
+    expect(arc.geometry.coordinates[1][0]).toBeCloseTo(-160, 6);
+
+    // On a flat map the arc is split at the antimeridian into two pieces (where a dash pattern
+    // would start over); the cut arc is still three quarters of the whole on screen
+    const path = d3.geoPath(d3.geoEquirectangular().scale(100).translate([0, 0]));
+    expect(path(route)!.match(/M/g)).toHaveLength(2);
+    expect(path.measure(arc.geometry)).toBeCloseTo(0.75 * path.measure(route), 6);
+  });
+
+  it('should move particles along the drawn part of each arc', () => {
+    const layer: MapLayer = {
+      id: 'routes',
+      type: 'flows',
+      data: collection(flow([0, 0], [90, 0], 1)),
+      flow: { particles: { count: 1, duration: 1000 } },
+    };
+    const projection = d3.geoEquirectangular().scale(100).translate([0, 0]);
+    const x = (time: number, progress = 1) =>
+      flowLayers
+        .particles({ ...layer, flow: { ...layer.flow, progress } }, projection, time)
+        .map((particle) => particle.x);
+
+    // 90° of the equator is π / 2 * 100 px long
+    expect(x(0)[0]).toBeCloseTo(0, 6);
+    expect(x(250)[0]).toBeCloseTo((Math.PI / 2) * 25, 6);
+    expect(x(1250)[0]).toBeCloseTo((Math.PI / 2) * 25, 6);
+    // Not past the drawn part of the arc
+    expect(x(750, 0.5)).toEqual([]);
+    expect(flowLayers.particles({ ...layer, flow: {} }, projection, 0)).toEqual([]);
+  });
+});
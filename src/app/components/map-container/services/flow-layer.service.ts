@@ -0,0 +1,213 @@
+import { Injectable, inject } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoProjection } from 'd3-geo';
+import { Feature, FeatureCollection, Position } from 'geojson';
+import {
+  FeatureStyleFunction,
+  FlowArc,
+  FlowParticles,
+  MapLayer,
+  ProportionalWidth,
+} from '../models/map.types';
+import { FeatureStyleService } from './feature-style.service';
+import { HitTestService } from './hit-test.service';
+
+/**
+ * A particle as drawn on screen
+ */
+export interface FlowParticle {
+  feature: Feature; // the flow it travels along
+  index: number; // index of the flow in the layer's features
+  x: number; // px
+  y: number; // px
+}
+
+type ParticleSettings = Required<Omit<FlowParticles, 'color'>> & Pick<FlowParticles, 'color'>;
+
+const DEFAULT_MIN_WIDTH = 0.5;
+const DEFAULT_PARTICLES: ParticleSettings = {
+  count: 3,
+  duration: 3000,
+  radius: 2,
+};
+// Offsets the particles of consecutive flows so they don't all move in step
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * A flow's path measured along its great circles
+ */
+interface Route {
+  positions: [number, number][];
+  distances: number[]; // great-circle distance from the origin to each position (radians)
+  length: number;
+}
+
+/**
+ * Flow Layer Service
+ * Lays out 'flows' layers: the drawn part of each arc at the layer's draw-on progress, arc
+ * widths, and particle positions at a time. Everything is kept geographic until drawn, so
+ * arcs follow every projection change, including morphs.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FlowLayerService {
+  private featureStyle = inject(FeatureStyleService);
+  private hitTester = inject(HitTestService);
+
+  private routes = new WeakMap<Feature, Route | null>();
+  // Proportional width scales depend on the data, so compile once per width option and data
+  private widthCache = new WeakMap<object, WeakMap<FeatureCollection, WidthFunction>>();
+
+  /**
+   * The drawn part of each flow, in draw order. Features that are not LineStrings are skipped.
+   */
+  arcs(layer: MapLayer): FlowArc[] {
+    const progress = Math.min(Math.max(layer.flow?.progress ?? 1, 0), 1);
+    const width = this.width(layer);
+    const arcs: FlowArc[] = [];
+    if (progress === 0) return arcs;
+
+    layer.data.features.forEach((feature, index) => {
+      const route = this.route(feature);
+      if (!route) return;
+
+      const coordinates = progress === 1 ? route.positions : partialRoute(route, progress);
+      arcs.push({
+        feature,
+        index,
+        geometry: { type: 'LineString', coordinates },
+        width: width(feature, index),
+      });
+    });
+    return arcs;
+  }
+
+  /**
+   * Particles of a layer at a time (ms), on screen. Particles only travel the drawn part of
+   * each arc, and ones clipped by the projection are dropped.
+   */
+  particles(layer: MapLayer, projection: GeoProjection, time: number): FlowParticle[] {
+    const options = this.particleOptions(layer);
+    if (!options) return [];
+
+    const progress = Math.min(Math.max(layer.flow?.progress ?? 1, 0), 1);
+    const particles: FlowParticle[] = [];
+
+    layer.data.features.forEach((feature, index) => {
+      const route = this.route(feature);
+      if (!route) return;
+
+      for (let k = 0; k < options.count; k++) {
+        const along = (time / options.duration + k / options.count + index * GOLDEN_RATIO) % 1;
+        if (along > progress) continue;
+
+        const projected = this.hitTester.projectVisible(projection, pointAlong(route, along));
+        if (projected) {
+          particles.push({ feature, index, x: projected[0], y: projected[1] });
+        }
+      }
+    });
+    return particles;
+  }
+
+  /**
+   * Particle options of a layer with defaults applied, or undefined without particles
+   */
+  particleOptions(layer: MapLayer): ParticleSettings | undefined {
+    const particles = layer.flow?.particles;
+    if (!particles) return undefined;
+    return { ...DEFAULT_PARTICLES, ...(particles === true ? {} : particles) };
+  }
+
+  /**
+   * Per-feature arc width in px for a layer
+   */
+  width(layer: MapLayer): WidthFunction {
+    const width = layer.flow?.width;
+    if (width === undefined) {
+      const style = this.featureStyle.compile(layer.style, layer.data);
+      return (feature, index) => style(feature, index).strokeWidth;
+    }
+    if (typeof width === 'number') return () => width;
+    if (typeof width === 'function') return width;
+
+    let compiled = this.widthCache.get(width)?.get(layer.data);
+    if (!compiled) {
+      compiled = this.compileWidth(width, layer.data);
+      const byData = this.widthCache.get(width) ?? new WeakMap();
+      byData.set(layer.data, compiled);
+      this.widthCache.set(width, byData);
+    }
+    return compiled;
+  }
+
+  private compileWidth(width: ProportionalWidth, data: FeatureCollection): WidthFunction {
+    const value = (feature: Feature) => Number(feature.properties?.[width.property]);
+    const maxValue = width.maxValue ?? d3.max(data.features, value) ?? 0;
+    const scale = d3.scaleLinear().domain([0, maxValue]).range([0, width.maxWidth]).clamp(true);
+    const minWidth = width.minWidth ?? DEFAULT_MIN_WIDTH;
+
+    return (feature) => {
+      const size = Number.isFinite(value(feature)) ? scale(Math.max(value(feature), 0)) : 0;
+      return Math.max(size, minWidth);
+    };
+  }
+
+  /**
+   * A feature's route, measured once; null for features that are not flows
+   */
+  private route(feature: Feature): Route | null {
+    let route = this.routes.get(feature);
+    if (route === undefined) {
+      route = measureRoute(feature);
+      this.routes.set(feature, route);
+    }
+    return route;
+  }
+}
+
+type WidthFunction = FeatureStyleFunction<number>;
+
+function measureRoute(feature: Feature): Route | null {
+  if (feature.geometry?.type !== 'LineString' || feature.geometry.coordinates.length < 2) {
+    return null;
+  }
+
+  const positions = feature.geometry.coordinates.map(
+    ([lon, lat]) => [lon, lat] as [number, number]
+  );
+  const distances = [0];
+  d3.pairs(positions).forEach(([from, to], i) => {
+    distances.push(distances[i] + d3.geoDistance(from, to));
+  });
+  return { positions, distances, length: distances[distances.length - 1] };
+}
+
+/**
+ * The position at a fraction of a route's length
+ */
+function pointAlong(route: Route, fraction: number): Position {
+  const { positions, distances } = route;
+  const target = fraction * route.length;
+  // Index of the segment containing the target distance
+  const i = Math.max(Math.min(d3.bisectRight(distances, target) - 1, positions.length - 2), 0);
+  const span = distances[i + 1] - distances[i];
+  const t = span > 0 ? (target - distances[i]) / span : 0;
+  return d3.geoInterpolate(positions[i], positions[i + 1])(t);
+}
+
+/**
+ * The route from its origin up to a fraction of its length. Ending on the great circle keeps
+ * the partial arc exactly on the full one in every projection.
+ *
+ * Draw-on cuts the geometry instead of dashing the stroke: a dash pattern is measured in screen
+ * pixels and restarts on every piece of an arc the projection splits (at the antimeridian or a
+ * globe's horizon), and its end would slide along the arc as a morph changes screen lengths.
+ * Arc paths are rebuilt on every render anyway, as the projection changes.
+ */
+function partialRoute(route: Route, fraction: number): Position[] {
+  const target = fraction * route.length;
+  const passed = route.positions.filter((_, i) => route.distances[i] < target);
+  return [...passed, pointAlong(route, fraction)];
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { AnimationScheduler, VirtualAnimationScheduler } from './animation-scheduler.service';
+import { FrameExportService } from './frame-export.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+
+describe('FrameExportService', () => {
+  let geoZoom: GeoZoomService;
+  let frameExport: FrameExportService;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        ...MAP_INSTANCE_PROVIDERS,
+        { provide: AnimationScheduler, useValue: new VirtualAnimationScheduler() },
+      ],
+    });
+    geoZoom = TestBed.inject(GeoZoomService);
+    frameExport = TestBed.inject(FrameExportService);
+
+    element = document.createElement('div');
+    const projection = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+    geoZoom.init(element, projection, 960, 600);
+
+    // jsdom has no 2D canvas: frames draw nothing and encode as empty PNGs
+    const context = { clearRect: vi.fn(), fillRect: vi.fn(), drawImage: vi.fn() };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as any);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation((callback) =>
+      callback(new Blob())
+    );
+  });
+
+  afterEach(() => {
+    geoZoom.destroy(element);
+    vi.restoreAllMocks();
+  });
+
+  it('should export every frame up to and including the end of the sequence', async () => {
+    const centers: number[] = [];
+    const result = await frameExport.exportSequence(
+      { steps: [{ extent: { center: [40, 0], scale: 2 }, duration: 100, hold: 0 }] },
+      [],
+      { fps: 30, onFrame: () => centers.push(geoZoom.getCurrentState().center[0]) }
+    );
+
+    // 0, 33⅓ and 66⅔ ms, then the end state at 100ms
+    expect(result.frameCount).toBe(4);
+    expect(result.frames.length).toBe(4);
+    expect(centers[0]).toBeCloseTo(0, 6);
+    expect(centers[3]).toBeCloseTo(40, 6);
+    expect(geoZoom.getCurrentState().scale).toBeCloseTo(2, 6);
+  });
+});
@@ -0,0 +1,223 @@
+import { Injectable, inject } from '@angular/core';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { MapLayer } from '../models/map.types';
+import { AnimationControllerService, AnimationSequence } from './animation-controller.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { MapRendererService, RenderContext } from './map-renderer.service';
+
+export type FrameExportFormat = 'png' | 'webm';
+
+export interface FrameExportOptions {
+  fps?: number; // default 30
+  format?: FrameExportFormat; // default 'png'
+  duration?: number; // ms; defaults to the sequence duration, required for endless loops
+  background?: string | null; // default: map container background; null for transparent PNGs
+  bitrate?: number; // WebM bits per second (default 8 Mbps)
+  onFrame?: (frame: number, total: number) => void; // 1-based progress
+  signal?: AbortSignal;
+}
+
+export interface FrameExportResult {
+  format: FrameExportFormat;
+  fps: number;
+  frameCount: number;
+  duration: number; // ms
+  frames: Blob[]; // PNG frames (empty for WebM)
+  video?: Blob; // WebM file
+}
+
+const DEFAULT_EXPORT_FPS = 30;
+const DEFAULT_EXPORT_BACKGROUND = '#f0f0f0';
+const DEFAULT_WEBM_BITRATE = 8_000_000;
+
+/**
+ * Frame Export Service
+ * Renders an animation sequence frame by frame on a virtual clock: frame i shows the
+ * sequence at exactly i / fps seconds, however long the frame takes to draw and encode
+ */
+@Injectable()
+export class FrameExportService {
+  private animationController = inject(AnimationControllerService);
+  private geoZoom = inject(GeoZoomService);
+  private mapRenderer = inject(MapRendererService);
+
+  /**
+   * Export a sequence as PNG frames or a WebM video. The map is driven through the
+   * sequence while exporting and is left on the last frame. Pass a function for layers
+   * that change during the sequence; it is called for every frame.
+   */
+  async exportSequence(
+    sequence: AnimationSequence,
+    layers: MapLayer[] | (() => MapLayer[]),
+    options: FrameExportOptions = {}
+  ): Promise<FrameExportResult> {
+    const fps = options.fps ?? DEFAULT_EXPORT_FPS;
+    const format = options.format ?? 'png';
+    if (!(fps > 0)) {
+      throw new Error(`Invalid export frame rate: ${fps}`);
+    }
+    if (format === 'webm' && typeof VideoEncoder === 'undefined') {
+      throw new Error('WebM export requires WebCodecs (VideoEncoder), which this browser lacks');
+    }
+
+    const projection = this.geoZoom.getProjection();
+    if (!projection || !this.animationController.loadSequence(sequence)) {
+      throw new Error('Cannot export before the map is initialized');
+    }
+
+    const duration = options.duration ?? this.animationController.getDuration();
+    if (!Number.isFinite(duration)) {
+      throw new Error('Endless sequences need an export duration (options.duration)');
+    }
+
+    const [width, height] = this.geoZoom.getViewportSize();
+    const mapContext = this.mapRenderer.createCanvasContext(width, height, projection);
+    const frame = this.mapRenderer.createCanvasContext(width, height, projection);
+    // Frames at 0, 1/fps, ... up to and including the end, so the last frame is the end state
+    const frameCount = Math.floor((duration * fps) / 1000) + 1;
+    const frames: Blob[] = [];
+    const encoder = format === 'webm' ? new WebmEncoder(width, height, fps, options) : undefined;
+
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        options.signal?.throwIfAborted();
+
+        this.animationController.seek((i * 1000) / fps);
+        // Layer animations (flow particles) run on the same virtual clock
+        mapContext.time = (i * 1000) / fps;
+        this.drawFrame(
+          mapContext,
+          frame,
+          typeof layers === 'function' ? layers() : layers,
+          options.background
+        );
+
+        if (encoder) {
+          await encoder.encode(frame.canvas as HTMLCanvasElement, i);
+        } else {
+          frames.push(await toPng(frame.canvas as HTMLCanvasElement));
+        }
+        options.onFrame?.(i + 1, frameCount);
+      }
+
+      const video = await encoder?.finish();
+      return { format, fps, frameCount, duration, frames, video };
+    } finally {
+      encoder?.close();
+    }
+  }
+
+  /**
+   * Draw the layers with the current projection, then composite them over the background
+   */
+  private drawFrame(
+    mapContext: RenderContext,
+    frame: RenderContext,
+    layers: MapLayer[],
+    background: string | null = DEFAULT_EXPORT_BACKGROUND
+  ): void {
+    const projection = this.geoZoom.getProjection();
+    if (!projection) return;
+
+    // The projection instance changes during morphs, so rebuild the path every frame
+    this.mapRenderer.updateProjection(mapContext, projection);
+    this.mapRenderer.renderLayers(mapContext, layers);
+
+    const ctx = frame.context as CanvasRenderingContext2D;
+    const canvas = frame.canvas as HTMLCanvasElement;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (background) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(mapContext.canvas as HTMLCanvasElement, 0, 0);
+  }
+}
+
+/**
+ * Encode a canvas as a PNG blob
+ */
+function toPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode frame as PNG'))),
+      'image/png'
+    );
+  });
+}
+
+/**
+ * VP9 WebCodecs encoder muxed into WebM. Frames carry explicit timestamps (i / fps),
+ * so the video timing does not depend on how fast frames were produced.
+ */
+class WebmEncoder {
+  private target = new ArrayBufferTarget();
+  private muxer: Muxer<ArrayBufferTarget>;
+  private encoder: VideoEncoder;
+  private failure?: DOMException;
+
+  constructor(
+    width: number,
+    height: number,
+    private fps: number,
+    options: FrameExportOptions
+  ) {
+    this.muxer = new Muxer({
+      target: this.target,
+      video: { codec: 'V_VP9', width, height, frameRate: fps },
+    });
+    this.encoder = new VideoEncoder({
+      output: (chunk, meta) => this.muxer.addVideoChunk(chunk, meta),
+      error: (error) => (this.failure = error),
+    });
+    this.encoder.configure({
+      codec: 'vp09.00.10.08',
+      width,
+      height,
+      bitrate: options.bitrate ?? DEFAULT_WEBM_BITRATE,
+      framerate: fps,
+    });
+  }
+
+  /**
+   * Encode frame i, waiting while the encoder queue is backed up
+   */
+  async encode(canvas: HTMLCanvasElement, index: number): Promise<void> {
+    this.throwIfFailed();
+
+    const frameDuration = 1_000_000 / this.fps; // microseconds
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round(index * frameDuration),
+      duration: Math.round(frameDuration),
+    });
+    // A keyframe every two seconds keeps the video seekable
+    this.encoder.encode(frame, { keyFrame: index % Math.round(this.fps * 2) === 0 });
+    frame.close();
+
+    while (this.encoder.encodeQueueSize > 4) {
+      await new Promise((resolve) => setTimeout(resolve));
+    }
+  }
+
+  /**
+   * Flush the encoder and return the finished file
+   */
+  async finish(): Promise<Blob> {
+    await this.encoder.flush();
+    this.throwIfFailed();
+    this.muxer.finalize();
+    return new Blob([this.target.buffer], { type: 'video/webm' });
+  }
+
+  close(): void {
+    if (this.encoder.state !== 'closed') {
+      this.encoder.close();
+    }
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { MapExtent } from '../models/map.types';
+import { AnimationScheduler, VirtualAnimationScheduler } from './animation-scheduler.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+import { ProjectionRegistryService } from './projection-registry.service';
+
+describe('GeoZoomService', () => {
+  let scheduler: VirtualAnimationScheduler;
+  let geoZoom: GeoZoomService;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    scheduler = new VirtualAnimationScheduler();
+    TestBed.configureTestingModule({
+      providers: [...MAP_INSTANCE_PROVIDERS, { provide: AnimationScheduler, useValue: scheduler }],
+    });
+    geoZoom = TestBed.inject(GeoZoomService);
+
+    element = document.createElement('div');
+    const projection = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+    geoZoom.init(element, projection, 960, 600);
+  });
+
+  afterEach(() => {
+    geoZoom.destroy(element);
+  });
+
+  it('should morph into another projection and drive it once done', () => {
+    const target = TestBed.inject(ProjectionRegistryService).create('orthographic', 960, 600);
+    let done = false;
+    geoZoom.morphToProjection(target, { center: [20, 10], scale: 1 }, { duration: 1000 }, () => {
+      done = true;
+    });
+
+    scheduler.advance(500);
+    // Mid-morph the map is drawn by a blend of both projections
+    expect(geoZoom.getProjection()).not.toBe(target.projection);
+    expect(done).toBe(false);
+
+    scheduler.flush();
+    expect(done).toBe(true);
+    expect(geoZoom.getProjection()).toBe(target.projection);
+    const [x, y] = target.projection([20, 10])!;
+    expect(x).toBeCloseTo(480, 6);
+    expect(y).toBeCloseTo(300, 6);
+  });
+
+  it('should fly along a van Wijk path whose duration follows its length', () => {
+    const from: MapExtent = { center: [0, 0], scale: 4 };
+    const to: MapExtent = { center: [90, 0], scale: 4 };
+    const fly = geoZoom.createCameraInterpolator(from, to, { flyTo: { speed: 1 } });
+
+    // Ends on the extents, zooms out mid-flight and travels the great circle
+    expect(fly(0).scale).toBeCloseTo(4, 6);
+    expect(fly(1).center[0]).toBeCloseTo(90, 6);
+    expect(fly(0.5).scale).toBeLessThan(4);
+    expect(fly(0.5).center[0]).toBeCloseTo(45, 6);
+
+    // Measured in radians: a quarter turn, seeing a quarter of the world's width (π/2)
+    const width = Math.PI / 2;
+    const path = d3.interpolateZoom([0, 0, width], [Math.PI / 2, 0, width]);
+    expect(fly.duration).toBeCloseTo(path.duration, 6);
+
+    // Further takes longer, faster takes less time, and without speed the step's duration holds
+    const further = geoZoom.createCameraInterpolator(
+      from,
+      { center: [135, 0], scale: 4 },
+      { flyTo: { speed: 1 } }
+    );
+    expect(further.duration).toBeGreaterThan(fly.duration!);
+    const faster = geoZoom.createCameraInterpolator(from, to, { flyTo: { speed: 2 } });
+    expect(faster.duration).toBeCloseTo(fly.duration! / 2, 6);
+    expect(geoZoom.createCameraInterpolator(from, to, { flyTo: true }).duration).toBeUndefined();
+  });
+
+  it('should pan along the great circle, over the pole between opposite meridians', () => {
+    const pan = geoZoom.createCameraInterpolator(
+      { center: [0, 60], scale: 1 },
+      { center: [180, 60], scale: 3 }
+    );
+    expect(pan(0.5).center[1]).toBeCloseTo(90, 6);
+    expect(pan(0.5).scale).toBeCloseTo(2, 6);
+
+    // animateTo follows the same route: up the prime meridian, down the 180th
+    geoZoom.setView({ center: [0, 60], scale: 1 });
+    geoZoom.animateTo([180, 60], 1, 1000, undefined, { easing: d3.easeLinear });
+    scheduler.advance(250);
+    const [lon, lat] = geoZoom.getCurrentState().center;
+    expect(lon).toBeCloseTo(0, 4);
+    expect(lat).toBeGreaterThan(70);
+    scheduler.advance(500);
+    expect(Math.abs(geoZoom.getCurrentState().center[0])).toBeCloseTo(180, 4);
+    expect(geoZoom.getCurrentState().center[1]).toBeGreaterThan(70);
+  });
+
+  it('should fit bounds across the antimeridian like any other bounds', () => {
+    const pacific = geoZoom.fitExtent({
+      bounds: { minLon: 170, maxLon: -170, minLat: -10, maxLat: 10 },
+    });
+    const atlantic = geoZoom.fitExtent({
+      bounds: { minLon: -10, maxLon: 10, minLat: -10, maxLat: 10 },
+    });
+
+    expect(Math.abs(pacific.center[0])).toBeCloseTo(180, 6);
+    expect(pacific.center[1]).toBeCloseTo(0, 6);
+    expect(atlantic.center).toEqual([0, 0]);
+    // 10° either side of the center fills the 600px height less 20px padding
+    const halfHeight = ((10 * Math.PI) / 180) * (960 / (2 * Math.PI));
+    expect(pacific.scale).toBeCloseTo(280 / halfHeight, 4);
+    expect(atlantic.scale).toBeCloseTo(pacific.scale, 6);
+
+    // Clamped to the scale extent
+    const city = geoZoom.fitExtent({
+      bounds: { minLon: 179.99, maxLon: -179.99, minLat: 0, maxLat: 0.01 },
+    });
+    expect(city.scale).toBe(20);
+  });
+});
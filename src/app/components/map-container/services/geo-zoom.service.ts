@@ -1,17 +1,96 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import * as d3 from 'd3';
-import { GeoProjection } from 'd3-geo';
+import { GeoPermissibleObjects, GeoProjection } from 'd3-geo';
+import { MultiPoint } from 'geojson';
 import { Subject } from 'rxjs';
-import { ZoomConfig, ZoomEvent } from '../models/map.types';
+import {
+  AnimationConfig,
+  CameraTransitionOptions,
+  CenterStrategy,
+  FitTarget,
+  FlyToOptions,
+  GeoBounds,
+  MapExtent,
+  TileTransform,
+  ZoomConfig,
+  ZoomEvent,
+} from '../models/map.types';
+import { AnimationScheduler } from './animation-scheduler.service';
+import {
+  MorphProjection,
+  ProjectionRegistryService,
+  ResolvedProjection,
+} from './projection-registry.service';
+import { tileTransform } from './tile-math';
+
+/**
+ * Camera position at normalized time t, with an optional recommended duration
+ */
+export type CameraInterpolator = ((t: number) => MapExtent) & { duration?: number };
+
+/**
+ * A projection together with its fitted (reset) state, so it can be re-adopted after
+ * being driven to other views, e.g. when a timeline seeks back across a projection morph
+ */
+export interface ProjectionSnapshot {
+  projection: GeoProjection;
+  centerStrategy: CenterStrategy;
+  scale: number;
+  rotation: [number, number, number];
+  center: [number, number];
+}
+
+/**
+ * A running programmatic animation (animateTo, morphToProjection). Elapsed time only
+ * accumulates while it is not paused, so resuming keeps the remaining duration and easing.
+ */
+interface Transition {
+  duration: number;
+  elapsed: number;
+  lastTime: number;
+  paused: boolean;
+  frameId?: number;
+  render: (t: number) => void;
+  callback?: () => void;
+  interrupted?: () => void;
+}
+
+/**
+ * Normalize a longitude to [-180, 180)
+ */
+function wrapLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * Sample the edges of a lon/lat box (edges follow parallels and meridians, not great circles)
+ */
+export function boundsToGeometry(bounds: GeoBounds): MultiPoint {
+  const { minLon, maxLon, minLat, maxLat } = bounds;
+  const lonSpan = maxLon >= minLon ? maxLon - minLon : maxLon + 360 - minLon;
+  const lonSteps = Math.max(1, Math.ceil(lonSpan / 5));
+  const latSteps = Math.max(1, Math.ceil((maxLat - minLat) / 5));
+  const coordinates: [number, number][] = [];
+
+  for (let i = 0; i <= lonSteps; i++) {
+    const lon = minLon + (lonSpan * i) / lonSteps;
+    coordinates.push([lon, minLat], [lon, maxLat]);
+  }
+  for (let i = 0; i <= latSteps; i++) {
+    const lat = minLat + ((maxLat - minLat) * i) / latSteps;
+    coordinates.push([minLon, lat], [maxLon, lat]);
+  }
+
+  return { type: 'MultiPoint', coordinates };
+}
 
 /**
  * GeoZoom Service
  * Handles zoom and pan interactions by updating the projection directly
  * This causes the map to re-render with proper geographic transformations
+ * One instance per map, see MAP_INSTANCE_PROVIDERS
  */
-@Injectable({
-  providedIn: 'root',
-})
+@Injectable()
 export class GeoZoomService {
   private projection?: GeoProjection;
   private element?: Element;
@@ -32,6 +111,9 @@ export class GeoZoomService {
 
   // Config
   private scaleExtent: [number, number] = [0.5, 20];
+  private centerStrategy: CenterStrategy = 'rotate';
+  // Slippy-map mode: the view stays a north-up Web Mercator (see setSlippy)
+  private slippy = false;
   // Pan tuning: higher alpha -> stronger reduction of pan at high zoom
   private panScaleAlpha = 1;
   // Smoothing configuration for lerp
@@ -41,6 +123,19 @@ export class GeoZoomService {
   private targetScale = 1;
   private scaleVelocity = 0;
   private scaleSmoothingBase = 0.18;
+  // Fitted state of the driven projection (see ProjectionSnapshot)
+  private snapshot?: ProjectionSnapshot;
+  // True while a projection morph owns the projection
+  private morphing = false;
+  private morph?: {
+    from: ProjectionSnapshot;
+    to: ProjectionSnapshot;
+    fromExtent: MapExtent;
+    toExtent: MapExtent;
+    projection: MorphProjection;
+  };
+  // Programmatic animation in progress, if any (see runTransition)
+  private transition?: Transition;
 
   // Mouse state
   private isDragging = false;
@@ -58,6 +153,9 @@ export class GeoZoomService {
   // Observable for projection changes
   public onProjectionChange = new Subject<void>();
 
+  private projectionRegistry = inject(ProjectionRegistryService);
+  private scheduler = inject(AnimationScheduler);
+
   constructor() {
     // Bind event handlers once
     this.boundMouseDown = this.handleMouseDown.bind(this);
@@ -85,27 +183,221 @@ export class GeoZoomService {
     this.width = width;
     this.height = height;
     this.scaleExtent = config.scaleExtent;
+    this.centerStrategy = config.centerStrategy ?? 'rotate';
 
     // Store initial projection state
+    this.snapshot = this.captureProjection({ projection, centerStrategy: this.centerStrategy });
+    this.readProjectionState(projection);
+
+    // Add event listeners
+    this.setupEventListeners(element);
+
+    // Widgets following the map (e.g. a locator inset) may have subscribed before it existed
+    this.onProjectionChange.next();
+  }
+
+  /**
+   * Swap the projection being driven (e.g. when the projection input changes).
+   * The new projection's own scale and rotation become the reset state; with
+   * preserveView the current center and relative scale are carried over.
+   */
+  setProjection(
+    projection: GeoProjection,
+    centerStrategy: CenterStrategy = 'rotate',
+    preserveView = true
+  ): void {
+    const previous = this.projection ? this.getCurrentState() : undefined;
+
+    this.adoptProjection(this.captureProjection({ projection, centerStrategy }));
+
+    if (preserveView && previous) {
+      this.setCenter(previous.center, false);
+      this.setScale(previous.scale, false);
+    }
+
+    this.onProjectionChange.next();
+  }
+
+  /**
+   * Record a projection's fitted state before it gets driven
+   */
+  captureProjection(resolved: ResolvedProjection): ProjectionSnapshot {
+    const { projection, centerStrategy } = resolved;
+    const rotate = projection.rotate();
+    return {
+      projection,
+      centerStrategy,
+      scale: projection.scale(),
+      rotation: [rotate[0], rotate[1], rotate[2] ?? 0],
+      center: projection.center(),
+    };
+  }
+
+  /**
+   * Snapshot of the projection currently driven (the morph source while morphing)
+   */
+  getProjectionSnapshot(): ProjectionSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  /**
+   * Make a snapshot's projection the driven one, if it is not already. Does not render;
+   * follow with setView().
+   */
+  showProjection(snapshot: ProjectionSnapshot): void {
+    if (this.projection !== snapshot.projection) {
+      this.adoptProjection(snapshot);
+    }
+  }
+
+  /**
+   * Restore a snapshot's fitted state and drive its projection
+   */
+  private adoptProjection(snapshot: ProjectionSnapshot): void {
+    snapshot.projection.scale(snapshot.scale).rotate(snapshot.rotation).center(snapshot.center);
+
+    this.projection = snapshot.projection;
+    this.centerStrategy = snapshot.centerStrategy;
+    this.snapshot = snapshot;
+    this.morph = undefined;
+    this.morphing = false;
+    this.readProjectionState(snapshot.projection);
+  }
+
+  /**
+   * Point a snapshot's projection at an extent (used for morph endpoints)
+   */
+  private configureProjection(snapshot: ProjectionSnapshot, extent: MapExtent): void {
+    snapshot.projection.scale(snapshot.scale * extent.scale).center(snapshot.center);
+    this.rotateProjection(
+      snapshot.projection,
+      [-extent.center[0], -extent.center[1], snapshot.rotation[2]],
+      snapshot.centerStrategy
+    );
+  }
+
+  /**
+   * Get the viewport size passed to init
+   */
+  getViewportSize(): [number, number] {
+    return [this.width, this.height];
+  }
+
+  /**
+   * Get the allowed range of relative scales
+   */
+  getScaleExtent(): [number, number] {
+    return [...this.scaleExtent];
+  }
+
+  /**
+   * Change the allowed range of relative scales (e.g. to a tile source's zoom levels)
+   */
+  setScaleExtent(scaleExtent: [number, number]): void {
+    this.scaleExtent = [...scaleExtent];
+  }
+
+  /**
+   * Enter or leave slippy-map mode. While slippy, projection morphs only move the camera,
+   * so the view stays on its Web Mercator tiles.
+   */
+  setSlippy(slippy: boolean): void {
+    this.slippy = slippy;
+  }
+
+  /**
+   * Check if the map is in slippy-map mode
+   */
+  isSlippy(): boolean {
+    return this.slippy;
+  }
+
+  /**
+   * Web Mercator tile zoom and placement of the current view, or undefined unless the view is
+   * a north-up Web Mercator
+   */
+  getTileTransform(tileSize = 256): TileTransform | undefined {
+    return this.projection && tileTransform(this.projection, tileSize);
+  }
+
+  /**
+   * Relative scale (as in MapExtent) showing Web Mercator tiles of a zoom level at their
+   * native size: the world is tileSize * 2^zoom px across
+   */
+  scaleForTileZoom(zoom: number, tileSize = 256): number {
+    return (tileSize * 2 ** zoom) / (2 * Math.PI * this.initialScale);
+  }
+
+  /**
+   * Get the projection currently driven by this service
+   */
+  getProjection(): GeoProjection | undefined {
+    return this.projection;
+  }
+
+  /**
+   * Read scale, rotation and center from a freshly configured projection
+   */
+  private readProjectionState(projection: GeoProjection): void {
     this.initialScale = projection.scale();
     this.currentScale = this.initialScale;
     this.targetScale = this.initialScale;
+    this.scaleVelocity = 0;
+
+    const rotate = projection.rotate() as [number, number, number];
+    const center = projection.center();
+
+    // Rotation is tracked as [-lon, -lat, gamma] of the view center regardless of
+    // how the projection applies it (see applyRotation)
+    this.initialRotation =
+      this.centerStrategy === 'rotate-lambda'
+        ? [rotate[0], -center[1], rotate[2] ?? 0]
+        : [rotate[0], rotate[1], rotate[2] ?? 0];
+    this.currentRotation = [...this.initialRotation];
+    this.targetRotation = [...this.initialRotation];
+
+    this.initialCenter = this.centerFromRotation(this.initialRotation);
+    this.currentCenter = [...this.initialCenter];
+  }
 
-    const center = projection.center?.();
-    if (center) {
-      this.initialCenter = center as [number, number];
-      this.currentCenter = [...this.initialCenter];
-    }
+  /**
+   * Apply a view rotation to the projection according to the center strategy.
+   * Conic projections only rotate in longitude; latitude moves the projection center
+   * so the standard parallels are not tilted.
+   */
+  private applyRotation(rotation: [number, number, number]): void {
+    if (!this.projection) return;
+
+    this.rotateProjection(this.projection, rotation, this.centerStrategy);
+    this.currentCenter = this.centerFromRotation(rotation);
+  }
 
-    const rotate = projection.rotate?.();
-    if (rotate) {
-      this.initialRotation = rotate as [number, number, number];
-      this.currentRotation = [...this.initialRotation];
-      this.targetRotation = [...this.initialRotation];
+  /**
+   * Rotate any projection to a view rotation using the given strategy
+   */
+  private rotateProjection(
+    projection: GeoProjection,
+    rotation: [number, number, number],
+    strategy: CenterStrategy
+  ): void {
+    if (strategy === 'rotate-lambda') {
+      projection.rotate([rotation[0], 0, rotation[2]]);
+      projection.center([0, -rotation[1]]);
+    } else {
+      projection.rotate(rotation);
     }
+  }
 
-    // Add event listeners
-    this.setupEventListeners(element);
+  /**
+   * Geographic view center for a view rotation, normalized to [-180, 180) longitude.
+   * Rotations accumulate freely while dragging (and latitude can pass a pole), so the
+   * center is the point the rotation brings to the origin.
+   */
+  private centerFromRotation(rotation: [number, number, number]): [number, number] {
+    if (this.centerStrategy === 'rotate-lambda') {
+      return [wrapLongitude(-rotation[0]), -rotation[1]];
+    }
+    return d3.geoRotation(rotation).invert([0, 0]);
   }
 
   /**
@@ -259,7 +551,7 @@ export class GeoZoomService {
 
   /** Start the animation loop that lerps currentRotation toward targetRotation */
   private startAnimationLoop(): void {
-    if (this.animationId) return; // already running
+    if (this.animationId || this.morphing) return; // already running, or a morph owns the projection
     const animate = () => {
       if (!this.projection) {
         this.animationId = undefined;
@@ -313,9 +605,7 @@ export class GeoZoomService {
         Math.min(this.scaleExtent[1] * this.initialScale, this.currentScale)
       );
 
-      if (this.projection.rotate) {
-        this.projection.rotate(this.currentRotation);
-      }
+      this.applyRotation(this.currentRotation);
 
       if (this.projection.scale) {
         this.projection.scale(this.currentScale);
@@ -324,13 +614,13 @@ export class GeoZoomService {
       this.onProjectionChange.next();
 
       if (changed || scaleChanged) {
-        this.animationId = requestAnimationFrame(animate);
+        this.animationId = this.scheduler.requestFrame(animate);
       } else {
         this.animationId = undefined;
       }
     };
 
-    this.animationId = requestAnimationFrame(animate);
+    this.animationId = this.scheduler.requestFrame(animate);
   }
 
   /**
@@ -341,18 +631,19 @@ export class GeoZoomService {
   }
 
   /**
-   * Programmatically set projection center (via rotation for equirectangular)
+   * Programmatically set projection center (via rotation, see applyRotation)
    */
   setCenter(center: [number, number], triggerRender = true): void {
     if (!this.projection) return;
 
-    // For equirectangular and similar projections, use rotation
-    this.currentRotation = [-center[0], -center[1], 0];
+    // Keep rotation continuous across the ±180° wrap so smoothing never spins the long way
+    const lambda = -center[0];
+    const continuous = lambda + 360 * Math.round((this.currentRotation[0] - lambda) / 360);
+
+    this.currentRotation = [continuous, -center[1], this.currentRotation[2]];
     this.targetRotation = [...this.currentRotation];
 
-    if (this.projection.rotate) {
-      this.projection.rotate(this.currentRotation);
-    }
+    this.applyRotation(this.currentRotation);
 
     if (triggerRender) {
       this.onProjectionChange.next();
@@ -381,55 +672,358 @@ export class GeoZoomService {
   }
 
   /**
-   * Animate to a specific center and scale
+   * Jump to an extent immediately (one render)
+   */
+  setView(extent: MapExtent): void {
+    if (!this.projection || this.morphing) return;
+
+    this.setCenter(extent.center, false);
+    this.setScale(extent.scale, false);
+  }
+
+  /**
+   * Create the camera path between two extents: great-circle linear by default, or the
+   * van Wijk fly-to path (whose duration, when speed is set, follows path length)
+   */
+  createCameraInterpolator(
+    from: MapExtent,
+    to: MapExtent,
+    options: CameraTransitionOptions = {}
+  ): CameraInterpolator {
+    return options.flyTo
+      ? this.flyToInterpolator(from, to, options.flyTo === true ? {} : options.flyTo)
+      : this.linearInterpolator(from, to);
+  }
+
+  /**
+   * Animate to a specific center and scale.
+   * With `options.flyTo` the camera follows a van Wijk smooth zoom-pan path; when
+   * `flyTo.speed` is set the duration is derived from the path length instead.
    */
   animateTo(
     center: [number, number],
     scale: number,
     duration: number = 750,
-    callback?: () => void
+    callback?: () => void,
+    options: CameraTransitionOptions = {}
   ): void {
     if (!this.projection) return;
+    // Settle any running transition first so this one starts from what is on screen
+    this.cancelTransition();
 
-    const startCenter = [...this.currentCenter];
-    const startScale = this.currentScale / this.initialScale;
-    const startTime = Date.now();
+    const from: MapExtent = {
+      center: [...this.currentCenter],
+      scale: this.currentScale / this.initialScale,
+    };
+    const interpolate = this.createCameraInterpolator(from, { center, scale }, options);
+    const totalDuration = interpolate.duration ?? duration;
+    const easing = options.easing ?? d3.easeCubicInOut;
+
+    this.runTransition(
+      totalDuration,
+      (t) => {
+        // Interpolate center and scale
+        const frame = interpolate(easing(t));
+
+        // Update projection
+        this.setCenter(frame.center, false);
+        this.setScale(frame.scale, false);
+
+        // Trigger render
+        this.onProjectionChange.next();
+
+        if (t >= 1) {
+          // Ensure targets are synchronized at end of animation
+          this.targetRotation = [...this.currentRotation];
+          this.targetScale = this.currentScale;
+          this.scaleVelocity = 0;
+        }
+      },
+      callback
+    );
+  }
 
-    const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const t = Math.min(elapsed / duration, 1);
+  /**
+   * Run a timed animation, calling render with linear progress t (0-1) once per frame.
+   * Starting another transition interrupts this one where it is (calling `interrupted`,
+   * without the callback); pauseTransition() freezes it mid-way.
+   */
+  runTransition(
+    duration: number,
+    render: (t: number) => void,
+    callback?: () => void,
+    interrupted?: () => void
+  ): void {
+    this.cancelTransition();
+
+    const transition: Transition = {
+      duration,
+      elapsed: 0,
+      lastTime: this.scheduler.now(),
+      paused: false,
+      render,
+      callback,
+      interrupted,
+    };
+    this.transition = transition;
+    transition.frameId = this.scheduler.requestFrame(() => this.stepTransition(transition));
+  }
 
-      // Easing function
-      const eased = d3.easeCubicInOut(t);
+  /**
+   * Advance a transition by the time since its last frame and render it
+   */
+  private stepTransition(transition: Transition): void {
+    if (transition !== this.transition || transition.paused) return;
 
-      // Interpolate center
-      const interpCenter: [number, number] = [
-        startCenter[0] + (center[0] - startCenter[0]) * eased,
-        startCenter[1] + (center[1] - startCenter[1]) * eased,
-      ];
+    const now = this.scheduler.now();
+    transition.elapsed += now - transition.lastTime;
+    transition.lastTime = now;
+    const t =
+      transition.duration > 0 ? Math.min(transition.elapsed / transition.duration, 1) : 1;
 
-      // Interpolate scale
-      const interpScale = startScale + (scale - startScale) * eased;
+    transition.render(t);
 
-      // Update projection
-      this.setCenter(interpCenter, false);
-      this.setScale(interpScale, false);
+    if (t < 1) {
+      transition.frameId = this.scheduler.requestFrame(() => this.stepTransition(transition));
+    } else {
+      this.transition = undefined;
+      transition.callback?.();
+    }
+  }
 
-      // Trigger render
-      this.onProjectionChange.next();
+  /**
+   * Freeze the running transition on its current frame
+   */
+  pauseTransition(): void {
+    const transition = this.transition;
+    if (!transition || transition.paused) return;
+
+    // Count the time up to the pause so the frozen frame is where the camera stays
+    transition.elapsed += this.scheduler.now() - transition.lastTime;
+    transition.paused = true;
+    if (transition.frameId !== undefined) {
+      this.scheduler.cancelFrame(transition.frameId);
+      transition.frameId = undefined;
+    }
+  }
 
-      if (t < 1) {
-        requestAnimationFrame(animate);
-      } else {
-        // Ensure targets are synchronized at end of animation
-        this.targetRotation = [...this.currentRotation];
-        this.targetScale = this.currentScale;
-        this.scaleVelocity = 0;
-        callback?.();
-      }
+  /**
+   * Continue a paused transition with its remaining duration
+   */
+  resumeTransition(): void {
+    const transition = this.transition;
+    if (!transition || !transition.paused) return;
+
+    transition.paused = false;
+    transition.lastTime = this.scheduler.now();
+    transition.frameId = this.scheduler.requestFrame(() => this.stepTransition(transition));
+  }
+
+  /**
+   * Abandon the running transition (its callback is not called)
+   */
+  cancelTransition(): void {
+    const transition = this.transition;
+    if (!transition) return;
+
+    this.transition = undefined;
+    if (transition.frameId !== undefined) {
+      this.scheduler.cancelFrame(transition.frameId);
+    }
+    transition.interrupted?.();
+  }
+
+  /**
+   * Check if a transition is running (or paused)
+   */
+  hasTransition(): boolean {
+    return this.transition !== undefined;
+  }
+
+  /**
+   * Check if the current transition is paused
+   */
+  isTransitionPaused(): boolean {
+    return this.transition?.paused ?? false;
+  }
+
+  /**
+   * Center follows the shortest great-circle route (crossing the antimeridian when
+   * that is shorter); scale is interpolated linearly
+   */
+  private linearInterpolator(from: MapExtent, to: MapExtent): CameraInterpolator {
+    const route = d3.geoInterpolate(from.center, to.center);
+    return (t: number) => ({
+      center: route(t),
+      scale: from.scale + (to.scale - from.scale) * t,
+    });
+  }
+
+  /**
+   * Van Wijk & Nuij optimal zoom-pan path (d3.interpolateZoom). The pan axis is the
+   * great-circle distance in radians and the zoom axis the visible width in radians, so
+   * the path is measured in the same units the projection scale uses; the center then
+   * travels along the great-circle route.
+   */
+  private flyToInterpolator(
+    from: MapExtent,
+    to: MapExtent,
+    options: FlyToOptions
+  ): CameraInterpolator {
+    const viewWidth = (scale: number) => this.width / (this.initialScale * scale);
+
+    // @types/d3-interpolate declares rho on the interpolator, d3 exposes it on the factory
+    const interpolateZoom = (
+      d3.interpolateZoom as unknown as { rho(rho: number): typeof d3.interpolateZoom }
+    ).rho(options.rho ?? Math.SQRT2);
+    const distance = d3.geoDistance(from.center, to.center);
+    const route = d3.geoInterpolate(from.center, to.center);
+    const zoom = interpolateZoom([0, 0, viewWidth(from.scale)], [distance, 0, viewWidth(to.scale)]);
+
+    const interpolator: CameraInterpolator = (t: number) => {
+      const [travelled, , width] = zoom(t);
+      return {
+        center: distance > 0 ? route(travelled / distance) : to.center,
+        scale: this.width / (this.initialScale * width),
+      };
     };
+    interpolator.duration = options.speed ? zoom.duration / options.speed : undefined;
+    return interpolator;
+  }
 
-    requestAnimationFrame(animate);
+  /**
+   * Morph from the current projection to another, optionally moving to a new extent
+   * at the same time. Intermediate frames interpolate the projected coordinates of
+   * both endpoints; when done the target becomes the driven projection.
+   */
+  morphToProjection(
+    target: ResolvedProjection,
+    extent: MapExtent | undefined,
+    config: AnimationConfig,
+    callback?: () => void
+  ): void {
+    if (!this.projection || !this.snapshot) return;
+    if (this.slippy) {
+      // The projection is fixed in slippy mode: only move the camera
+      const { center, scale } = extent ?? this.getCurrentState();
+      this.animateTo(center, scale, config.duration, callback, { easing: config.easing });
+      return;
+    }
+    this.cancelTransition();
+
+    const from = this.snapshot;
+    const to = this.captureProjection(target);
+    const fromExtent = this.getCurrentState();
+    const toExtent = extent ?? fromExtent;
+    const easing = config.easing ?? d3.easeCubicInOut;
+    // An interrupted morph lands on the target so the driven projection is never left mid-morph
+    const finish = () => {
+      this.showProjection(to);
+      this.setView(toExtent);
+    };
+
+    this.runTransition(
+      config.duration,
+      (t) => (t < 1 ? this.morphFrame(from, to, fromExtent, toExtent, easing(t)) : finish()),
+      callback,
+      finish
+    );
+  }
+
+  /**
+   * Render one frame of a morph between two projection snapshots, each shown at its own
+   * extent. The interpolated projection is cached for consecutive frames of the same morph.
+   */
+  morphFrame(
+    from: ProjectionSnapshot,
+    to: ProjectionSnapshot,
+    fromExtent: MapExtent,
+    toExtent: MapExtent,
+    alpha: number
+  ): void {
+    let morph = this.morph;
+    if (
+      !morph ||
+      morph.from !== from ||
+      morph.to !== to ||
+      morph.fromExtent !== fromExtent ||
+      morph.toExtent !== toExtent
+    ) {
+      this.configureProjection(from, fromExtent);
+      this.configureProjection(to, toExtent);
+      morph = {
+        from,
+        to,
+        fromExtent,
+        toExtent,
+        projection: this.projectionRegistry.interpolate(from.projection, to.projection),
+      };
+      this.morph = morph;
+    }
+
+    this.projection = morph.projection;
+    this.morphing = true;
+    morph.projection.alpha(alpha);
+    this.onProjectionChange.next();
+  }
+
+  /**
+   * Check if a projection morph is running
+   */
+  isMorphing(): boolean {
+    return this.morphing;
+  }
+
+  /**
+   * Compute the center and scale that fit geometry or bounds into the viewport in the
+   * current projection (or a snapshot's), clamped to the configured scaleExtent. The
+   * projection is measured at the fitted center (so clipped and curved projections fit
+   * what will be shown) and restored afterwards without a render.
+   */
+  fitExtent(
+    target: FitTarget,
+    snapshot: ProjectionSnapshot | undefined = this.snapshot
+  ): MapExtent {
+    const object: GeoPermissibleObjects | undefined = target.bounds
+      ? boundsToGeometry(target.bounds)
+      : target.geometry;
+    if (!snapshot || !object) return this.getCurrentState();
+
+    const padding = target.padding ?? 20;
+
+    // d3.geoBounds reports west > east when the object crosses the antimeridian
+    const [[west, south], [east, north]] = d3.geoBounds(object);
+    const lonSpan = east >= west ? east - west : east + 360 - west;
+    const center: [number, number] = [wrapLongitude(west + lonSpan / 2), (south + north) / 2];
+
+    const projection = snapshot.projection;
+    const rotate = projection.rotate();
+    const projectionCenter = projection.center();
+    const scale = projection.scale();
+
+    this.rotateProjection(
+      projection,
+      [-center[0], -center[1], snapshot.rotation[2]],
+      snapshot.centerStrategy
+    );
+    projection.scale(snapshot.scale);
+    const [[x0, y0], [x1, y1]] = d3.geoPath(projection).bounds(object);
+    const [tx, ty] = projection.translate();
+    projection.rotate(rotate).center(projectionCenter).scale(scale);
+
+    // Distance from the view center to the furthest edge, per axis
+    const halfWidth = Math.max(tx - x0, x1 - tx);
+    const halfHeight = Math.max(ty - y0, y1 - ty);
+    const fit = Math.min(
+      (this.width / 2 - padding) / halfWidth,
+      (this.height / 2 - padding) / halfHeight
+    );
+    if (Number.isNaN(fit)) return { center, scale: this.getCurrentState().scale };
+
+    return {
+      center,
+      scale: Math.max(this.scaleExtent[0], Math.min(this.scaleExtent[1], fit)),
+    };
   }
 
   /**
@@ -450,6 +1044,16 @@ export class GeoZoomService {
     };
   }
 
+  /**
+   * Current zoom and pan, as reported by MapContainerComponent's zoomChange output
+   */
+  getZoomEvent(): ZoomEvent | undefined {
+    if (!this.projection) return undefined;
+
+    const { center, scale } = this.getCurrentState();
+    return { scale, center, translate: this.projection.translate() };
+  }
+
   /**
    * Destroy and cleanup
    */
@@ -467,6 +1071,12 @@ export class GeoZoomService {
     document.removeEventListener('mousemove', this.boundMouseMove);
     document.removeEventListener('mouseup', this.boundMouseUp);
 
+    // Stop programmatic and smoothing animations
+    this.cancelTransition();
+    if (this.animationId !== undefined) {
+      this.scheduler.cancelFrame(this.animationId);
+      this.animationId = undefined;
+    }
     this.onProjectionChange.complete();
   }
 }
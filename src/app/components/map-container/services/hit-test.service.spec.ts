@@ -0,0 +1,94 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature } from 'geojson';
+import { MapLayer } from '../models/map.types';
+import { collection } from '../testing/geojson';
+import { HitTestService } from './hit-test.service';
+import { ProjectionRegistryService } from './projection-registry.service';
+
+// 20° squares centered on [lon, lat], wound clockwise as d3-geo expects for exterior rings
+const square = (lon: number, lat: number): Feature => ({
+  type: 'Feature',
+  properties: { lon, lat },
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [lon - 10, lat - 10],
+        [lon - 10, lat + 10],
+        [lon + 10, lat + 10],
+        [lon + 10, lat - 10],
+        [lon - 10, lat - 10],
+      ],
+    ],
+  },
+});
+
+describe('HitTestService', () => {
+  let hitTester: HitTestService;
+
+  beforeEach(() => {
+    hitTester = TestBed.inject(HitTestService);
+  });
+
+  it('should find the topmost visible feature', () => {
+    const projection = d3.geoEquirectangular().scale(100).translate([300, 150]);
+    const point = projection([0, 0]) as [number, number];
+    const africa = square(0, 0);
+    const layers: MapLayer[] = [
+      { id: 'base', data: collection(square(90, 0), africa) },
+      { id: 'overlay', data: collection(square(0, 0)), visible: false },
+      {
+        id: 'cities',
+        data: collection({
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'Point', coordinates: [40, 40] },
+        }),
+      },
+    ];
+
+    const hit = hitTester.hitTest(layers, projection, point);
+    expect(hit?.feature).toBe(africa);
+    expect(hit?.layer).toBe('base');
+    expect(hit?.coordinates[0]).toBeCloseTo(0);
+
+    const [x, y] = projection([40, 40]) as [number, number];
+    expect(hitTester.hitTest(layers, projection, [x + 3, y])?.layer).toBe('cities');
+    expect(hitTester.hitTest(layers, projection, [x + 30, y])).toBeUndefined();
+  });
+
+  it('should follow the projection as the globe rotates', () => {
+    const projection = d3.geoOrthographic().scale(100).translate([150, 150]).clipAngle(90);
+    const layers: MapLayer[] = [{ id: 'base', data: collection(square(0, 0), square(180, 0)) }];
+
+    expect(hitTester.hitTest(layers, projection, [150, 150])?.feature.properties).toEqual({
+      lon: 0,
+      lat: 0,
+    });
+
+    projection.rotate([-180, 0]);
+    expect(hitTester.hitTest(layers, projection, [150, 150])?.feature.properties).toEqual({
+      lon: 180,
+      lat: 0,
+    });
+    // Beside the globe
+    expect(hitTester.hitTest(layers, projection, [5, 5])).toBeUndefined();
+  });
+
+  it('should hit features mid-morph', () => {
+    const registry = TestBed.inject(ProjectionRegistryService);
+    const from = registry.create('equirectangular', 300, 300).projection;
+    const to = registry.create('orthographic', 300, 300, { center: [90, 0] }).projection;
+    const morph = registry.interpolate(from, to).alpha(0.5);
+    const layers: MapLayer[] = [{ id: 'base', data: collection(square(40, 0), square(90, 0)) }];
+
+    const point = morph([90, 0]) as [number, number];
+    const hit = hitTester.hitTest(layers, morph, point);
+    expect(hit?.feature.properties).toEqual({ lon: 90, lat: 0 });
+    expect(hit?.coordinates[0]).toBeCloseTo(90, 4);
+    expect(hitTester.hitTest(layers, morph, morph([40, 0]) as [number, number])?.feature).toBe(
+      layers[0].data.features[0]
+    );
+  });
+});
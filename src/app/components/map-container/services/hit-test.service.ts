@@ -0,0 +1,268 @@
+import { Injectable } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoProjection } from 'd3-geo';
+import { Feature, Geometry, Position } from 'geojson';
+import { FeatureHit, FlowArc, MapLayer, PlacedLabel, PointMarker } from '../models/map.types';
+
+/**
+ * What the renderer drew for layers that are not plain paths, by layer id
+ */
+export interface DrawnLayers {
+  markers?: Record<string, PointMarker[]>; // 'points' layers
+  arcs?: Record<string, FlowArc[]>; // 'flows' layers
+  labels?: Record<string, PlacedLabel[]>; // 'labels' layers
+}
+
+// Pixels around points and lines that still count as a hit (d3 draws points with radius 4.5)
+const HIT_TOLERANCE = 5;
+// Longest great-circle piece (radians) tested as a straight screen segment
+const MAX_SEGMENT_ANGLE = (2 * Math.PI) / 180;
+
+/**
+ * Hit Test Service
+ * Finds the feature under a screen point without the DOM (canvas mode): the point is inverted
+ * through the current projection and tested against each feature in geographic space, so hits
+ * stay correct while the projection rotates, scales or morphs
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HitTestService {
+  // Geographic bounding boxes, so most polygons are rejected before a full geoContains test
+  private bounds = new WeakMap<Feature, [[number, number], [number, number]]>();
+
+  /**
+   * Find the topmost feature at a screen point. Layers are searched top down, and within a
+   * layer the last drawn feature wins, matching what is visible. Points, flows and labels
+   * layers are tested against their drawn markers (clusters included), arcs and labels.
+   */
+  hitTest(
+    layers: MapLayer[],
+    projection: GeoProjection,
+    point: [number, number],
+    drawn: DrawnLayers = {}
+  ): FeatureHit | undefined {
+    const coordinates = this.invert(projection, point);
+    if (!coordinates) return undefined;
+    const screen = { projection, point };
+
+    for (let l = layers.length - 1; l >= 0; l--) {
+      const layer = layers[l];
+      if (layer.visible === false || layer.interactive === false) continue;
+
+      const markers = drawn.markers?.[layer.id];
+      if (markers) {
+        const marker = this.markerAt(markers, point);
+        if (marker) return { feature: marker.feature, layer: layer.id, coordinates };
+        continue;
+      }
+      const arcs = drawn.arcs?.[layer.id];
+      if (arcs) {
+        const arc = this.arcAt(arcs, projection, point);
+        if (arc) return { feature: arc.feature, layer: layer.id, coordinates };
+        continue;
+      }
+      const labels = drawn.labels?.[layer.id];
+      if (labels) {
+        const label = this.labelAt(labels, point);
+        if (label) return { feature: label.feature, layer: layer.id, coordinates };
+        continue;
+      }
+
+      const features = layer.data.features;
+      for (let i = features.length - 1; i >= 0; i--) {
+        const feature = features[i];
+        if (feature.geometry && this.contains(feature, feature.geometry, coordinates, screen)) {
+          return { feature, layer: layer.id, coordinates };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Geographic coordinate under a screen point, or undefined off the map (e.g. beside a globe)
+   */
+  invert(projection: GeoProjection, point: [number, number]): [number, number] | undefined {
+    const coordinates = projection.invert?.(point);
+    if (!coordinates || !coordinates.every(Number.isFinite)) return undefined;
+
+    // Off the map the inverse is clamped or wrapped and does not project back to the point
+    const projected = projection(coordinates);
+    if (!projected || Math.hypot(projected[0] - point[0], projected[1] - point[1]) > 0.5) {
+      return undefined;
+    }
+    return coordinates;
+  }
+
+  /**
+   * Project a position, or undefined if it is clipped (e.g. on the far side of a globe)
+   */
+  projectVisible(projection: GeoProjection, position: Position): [number, number] | undefined {
+    const location: [number, number] = [position[0], position[1]];
+    const projected = projection(location);
+    if (!projected) return undefined;
+
+    // A clipped position projects onto the visible side, where it inverts to somewhere else
+    const back = projection.invert?.(projected);
+    return back && d3.geoDistance(back, location) < 1e-3 ? projected : undefined;
+  }
+
+  /**
+   * Polygons are tested in geographic space; points and lines, which have no area, within
+   * HIT_TOLERANCE pixels on screen
+   */
+  private contains(
+    feature: Feature,
+    geometry: Geometry,
+    coordinates: [number, number],
+    { projection, point }: { projection: GeoProjection; point: [number, number] }
+  ): boolean {
+    switch (geometry.type) {
+      case 'Polygon':
+      case 'MultiPolygon':
+        return this.inBounds(feature, coordinates) && d3.geoContains(geometry, coordinates);
+      case 'Point':
+        return this.nearPoints(projection, point, [geometry.coordinates]);
+      case 'MultiPoint':
+        return this.nearPoints(projection, point, geometry.coordinates);
+      case 'LineString':
+        return this.nearLines(projection, point, [geometry.coordinates]);
+      case 'MultiLineString':
+        return this.nearLines(projection, point, geometry.coordinates);
+      case 'GeometryCollection':
+        return geometry.geometries.some((part) =>
+          this.contains(feature, part, coordinates, { projection, point })
+        );
+    }
+  }
+
+  /**
+   * Cheap rejection against the feature's cached geographic bounds
+   */
+  private inBounds(feature: Feature, [lon, lat]: [number, number]): boolean {
+    let bounds = this.bounds.get(feature);
+    if (!bounds) {
+      bounds = d3.geoBounds(feature);
+      this.bounds.set(feature, bounds);
+    }
+
+    const [[west, south], [east, north]] = bounds;
+    if (lat < south || lat > north) return false;
+    // west > east when the feature crosses the antimeridian
+    return west <= east ? lon >= west && lon <= east : lon >= west || lon <= east;
+  }
+
+  /**
+   * Last drawn marker whose symbol covers the point (small symbols get HIT_TOLERANCE)
+   */
+  private markerAt(markers: PointMarker[], [x, y]: [number, number]): PointMarker | undefined {
+    for (let i = markers.length - 1; i >= 0; i--) {
+      const marker = markers[i];
+      if (Math.hypot(marker.x - x, marker.y - y) <= Math.max(marker.radius, HIT_TOLERANCE)) {
+        return marker;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Last drawn arc within half its width (at least HIT_TOLERANCE) of the point
+   */
+  private arcAt(
+    arcs: FlowArc[],
+    projection: GeoProjection,
+    point: [number, number]
+  ): FlowArc | undefined {
+    for (let i = arcs.length - 1; i >= 0; i--) {
+      const arc = arcs[i];
+      const tolerance = Math.max(arc.width / 2, HIT_TOLERANCE);
+      if (this.nearLines(projection, point, [arc.geometry.coordinates], tolerance)) return arc;
+    }
+    return undefined;
+  }
+
+  /**
+   * Last placed label whose text box contains the point
+   */
+  private labelAt(labels: PlacedLabel[], [x, y]: [number, number]): PlacedLabel | undefined {
+    for (let i = labels.length - 1; i >= 0; i--) {
+      const label = labels[i];
+      if (Math.abs(label.x - x) <= label.width / 2 && Math.abs(label.y - y) <= label.height / 2) {
+        return label;
+      }
+    }
+    return undefined;
+  }
+
+  private nearPoints(
+    projection: GeoProjection,
+    point: [number, number],
+    positions: Position[]
+  ): boolean {
+    return positions.some((position) => {
+      const projected = this.projectVisible(projection, position);
+      if (!projected) return false;
+      return Math.hypot(projected[0] - point[0], projected[1] - point[1]) <= HIT_TOLERANCE;
+    });
+  }
+
+  /**
+   * Lines are drawn along great circles, so long segments are split before being tested as
+   * straight screen segments
+   */
+  private nearLines(
+    projection: GeoProjection,
+    point: [number, number],
+    lines: Position[][],
+    tolerance = HIT_TOLERANCE
+  ): boolean {
+    return lines.some((line) =>
+      d3.pairs(densify(line)).some(([from, to]) => {
+        // Segments crossing the antimeridian are cut by the projection, not drawn across the map
+        if (Math.abs(to[0] - from[0]) > 180) return false;
+
+        const a = this.projectVisible(projection, from);
+        const b = this.projectVisible(projection, to);
+        return !!a && !!b && segmentDistance(point, a, b) <= tolerance;
+      })
+    );
+  }
+}
+
+/**
+ * Add great-circle points so no piece of the line spans more than MAX_SEGMENT_ANGLE
+ */
+function densify(line: Position[]): Position[] {
+  if (line.length < 2) return line;
+
+  const dense: Position[] = [line[0]];
+  d3.pairs(line).forEach(([from, to]) => {
+    const a: [number, number] = [from[0], from[1]];
+    const b: [number, number] = [to[0], to[1]];
+    const pieces = Math.ceil(d3.geoDistance(a, b) / MAX_SEGMENT_ANGLE);
+    const interpolate = d3.geoInterpolate(a, b);
+    for (let k = 1; k < pieces; k++) {
+      dense.push(interpolate(k / pieces));
+    }
+    dense.push(to);
+  });
+  return dense;
+}
+
+/**
+ * Distance in pixels from p to the segment ab
+ */
+function segmentDistance(
+  [px, py]: [number, number],
+  [ax, ay]: [number, number],
+  [bx, by]: [number, number]
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const length = dx * dx + dy * dy;
+  // Position of the closest point along the segment, clamped to its ends
+  const t = length === 0 ? 0 : ((px - ax) * dx + (py - ay) * dy) / length;
+  const clamped = Math.max(0, Math.min(1, t));
+  return Math.hypot(px - (ax + clamped * dx), py - (ay + clamped * dy));
+}
@@ -0,0 +1,88 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature, Geometry } from 'geojson';
+import { MapLayer } from '../models/map.types';
+import { collection } from '../testing/geojson';
+import { LabelLayerService } from './label-layer.service';
+
+const place = (name: string, geometry: Geometry, properties = {}): Feature => ({
+  type: 'Feature',
+  properties: { name, ...properties },
+  geometry,
+});
+
+const point = (name: string, lon: number, lat: number, population = 0): Feature =>
+  place(name, { type: 'Point', coordinates: [lon, lat] }, { population });
+
+const square = (lon: number, lat: number, size: number): [number, number][] => [
+  [lon, lat],
+  [lon, lat + size],
+  [lon + size, lat + size],
+  [lon + size, lat],
+  [lon, lat],
+];
+
+describe('LabelLayerService', () => {
+  let labelLayers: LabelLayerService;
+
+  beforeEach(() => {
+    labelLayers = TestBed.inject(LabelLayerService);
+  });
+
+  it('should hide labels overlapping ones of higher priority', () => {
+    const layer: MapLayer = {
+      id: 'cities',
+      type: 'labels',
+      data: collection(
+        point('Small', 0, 0, 10),
+        point('Large', 1, 0, 1000),
+        point('Far', 60, 0, 1),
+        point('Outside', 170, 0, 5000)
+      ),
+      label: { text: 'name', priority: 'population' },
+    };
+    const projection = d3.geoEquirectangular().scale(100).translate([300, 150]);
+    const names = (options = layer.label!, viewport?: [number, number]) =>
+      labelLayers
+        .labels({ ...layer, label: options }, projection, viewport)
+        .map((label) => label.text);
+
+    // 'Outside' is off screen, so it does not hide anything
+    expect(names(layer.label, [400, 300])).toEqual(['Large', 'Far']);
+    expect(names({ ...layer.label!, collisions: false }, [400, 300])).toEqual([
+      'Large',
+      'Small',
+      'Far',
+    ]);
+    // Zoomed in, the two labels no longer overlap
+    projection.scale(10000);
+    expect(names()).toEqual(['Outside', 'Large', 'Small', 'Far']);
+  });
+
+  it('should anchor labels at designated points or the largest part', () => {
+    const layer: MapLayer = {
+      id: 'countries',
+      type: 'labels',
+      data: collection(
+        place('Mainland', {
+          type: 'MultiPolygon',
+          coordinates: [[square(0, 0, 20)], [square(40, 0, 2)]],
+        }),
+        place('Capital', { type: 'Point', coordinates: [0, 0] }, { label: [100, 10] })
+      ),
+      label: { text: 'name', position: 'label' },
+    };
+    const projection = d3.geoEquirectangular().scale(180 / Math.PI).translate([0, 0]);
+
+    const [mainland, capital] = labelLayers.labels(layer, projection);
+    // One degree per pixel; y grows southwards
+    expect(mainland.x).toBeCloseTo(10, 0);
+    expect(mainland.y).toBeCloseTo(-10, 0);
+    expect(capital.x).toBeCloseTo(100, 6);
+    expect(capital.y).toBeCloseTo(-10, 6);
+
+    // Anchors on the far side of a globe are not labeled
+    const globe = d3.geoOrthographic().rotate([-120, 0]).clipAngle(90);
+    expect(labelLayers.labels(layer, globe).map((label) => label.text)).toEqual(['Capital']);
+  });
+});
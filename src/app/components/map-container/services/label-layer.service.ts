@@ -0,0 +1,259 @@
+import { Injectable, inject } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoPermissibleObjects, GeoProjection } from 'd3-geo';
+import { Feature, FeatureCollection, Polygon, Position } from 'geojson';
+import {
+  FeatureStyleFunction,
+  LabelHalo,
+  LabelOptions,
+  MapLayer,
+  PlacedLabel,
+} from '../models/map.types';
+import { HitTestService } from './hit-test.service';
+
+/**
+ * Text style of a labels layer with defaults applied
+ */
+export interface LabelStyle {
+  font: string;
+  color: FeatureStyleFunction<string>;
+  halo?: Required<LabelHalo>; // undefined without a halo
+}
+
+const DEFAULT_LABEL_FONT = '12px sans-serif';
+const DEFAULT_LABEL_COLOR = '#222';
+const DEFAULT_HALO: Required<LabelHalo> = { color: '#fff', width: 2 };
+const DEFAULT_PADDING = 2;
+// Average glyph width and line height relative to the font size, for estimating text size
+// where there is no canvas to measure it
+const GLYPH_WIDTH = 0.6;
+const LINE_HEIGHT = 1.2;
+// Side of the collision grid cells in px
+const GRID_CELL = 64;
+
+/**
+ * A label ready to be placed: everything that does not depend on the projection
+ */
+interface LabelCandidate {
+  feature: Feature;
+  index: number;
+  text: string;
+  anchor: Position; // [longitude, latitude]
+  width: number; // px
+  height: number; // px
+}
+
+type Candidates = LabelCandidate[];
+
+/**
+ * Screen box [x0, y0, x1, y1] taken by a placed label and its padding
+ */
+type Box = [number, number, number, number];
+
+/**
+ * Label Layer Service
+ * Places the labels of 'labels' layers. Texts, anchors, sizes and the priority order are
+ * computed once per layer data; each render only projects the anchors and runs a greedy
+ * collision pass over a screen grid, which stays cheap enough to redo on every frame of a
+ * zoom animation.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LabelLayerService {
+  private hitTester = inject(HitTestService);
+
+  // Candidates depend on the data, so build once per label options and data
+  private candidateCache = new WeakMap<LabelOptions, WeakMap<FeatureCollection, Candidates>>();
+  // Text widths by font and text
+  private widths = new Map<string, number>();
+  private measureContext?: OffscreenCanvasRenderingContext2D | null;
+
+  /**
+   * Labels of a layer placed in the current projection, highest priority first. Labels whose
+   * anchor is clipped, that fall outside the viewport [width, height] (when given) or that
+   * overlap a label placed before them are left out.
+   */
+  labels(layer: MapLayer, projection: GeoProjection, viewport?: [number, number]): PlacedLabel[] {
+    const options = layer.label;
+    if (!options) return [];
+
+    const [dx, dy] = options.offset ?? [0, 0];
+    const padding = options.padding ?? DEFAULT_PADDING;
+    const grid = new Map<string, Box[]>();
+    const placed: PlacedLabel[] = [];
+
+    for (const candidate of this.candidates(layer)) {
+      const projected = this.hitTester.projectVisible(projection, candidate.anchor);
+      if (!projected) continue;
+
+      const x = projected[0] + dx;
+      const y = projected[1] + dy;
+      const box: Box = [
+        x - candidate.width / 2 - padding,
+        y - candidate.height / 2 - padding,
+        x + candidate.width / 2 + padding,
+        y + candidate.height / 2 + padding,
+      ];
+      if (viewport && (box[2] < 0 || box[3] < 0 || box[0] > viewport[0] || box[1] > viewport[1])) {
+        continue;
+      }
+      if (options.collisions !== false && !placeBox(grid, box)) continue;
+
+      const { feature, index, text, width, height } = candidate;
+      placed.push({ feature, index, text, x, y, width, height });
+    }
+    return placed;
+  }
+
+  /**
+   * Font, color and halo of a layer's labels
+   */
+  labelStyle(layer: MapLayer): LabelStyle {
+    const options = layer.label;
+    const color = options?.color ?? DEFAULT_LABEL_COLOR;
+    const halo = options?.halo ?? true;
+    return {
+      font: options?.font ?? DEFAULT_LABEL_FONT,
+      color: typeof color === 'function' ? color : () => color,
+      halo: halo ? { ...DEFAULT_HALO, ...(halo === true ? {} : halo) } : undefined,
+    };
+  }
+
+  /**
+   * A layer's labels in placement order, built once per label options and data
+   */
+  private candidates(layer: MapLayer): LabelCandidate[] {
+    const options = layer.label as LabelOptions;
+    let candidates = this.candidateCache.get(options)?.get(layer.data);
+    if (!candidates) {
+      candidates = this.buildCandidates(options, layer.data);
+      const byData = this.candidateCache.get(options) ?? new WeakMap();
+      byData.set(layer.data, candidates);
+      this.candidateCache.set(options, byData);
+    }
+    return candidates;
+  }
+
+  private buildCandidates(options: LabelOptions, data: FeatureCollection): LabelCandidate[] {
+    const text = propertyOrFunction(options.text, (value) => String(value ?? ''));
+    const position = options.position ? propertyOrFunction(options.position, toPosition) : null;
+    const priority = options.priority ? propertyOrFunction(options.priority, Number) : null;
+    const font = options.font ?? DEFAULT_LABEL_FONT;
+    const height = fontSize(font) * LINE_HEIGHT;
+
+    const candidates: (LabelCandidate & { priority: number })[] = [];
+    data.features.forEach((feature, index) => {
+      const label = text(feature, index).trim();
+      const anchor = position?.(feature, index) ?? labelPoint(feature);
+      if (!label || !anchor) return;
+
+      const value = priority ? priority(feature, index) : 0;
+      candidates.push({
+        feature,
+        index,
+        text: label,
+        anchor,
+        width: this.measure(label, font),
+        height,
+        priority: Number.isFinite(value) ? value : -Infinity,
+      });
+    });
+
+    // Array sorting is stable, so equal priorities keep data order
+    return candidates
+      .sort((a, b) => b.priority - a.priority)
+      .map(({ priority, ...candidate }) => candidate);
+  }
+
+  /**
+   * Width of a text in px, measured on an offscreen canvas when there is one
+   */
+  private measure(text: string, font: string): number {
+    const key = `${font}|${text}`;
+    let width = this.widths.get(key);
+    if (width === undefined) {
+      if (this.measureContext === undefined) {
+        // No OffscreenCanvas outside browsers (e.g. jsdom in unit tests)
+        const canvas = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1);
+        this.measureContext = canvas?.getContext('2d') ?? null;
+      }
+      if (this.measureContext) {
+        this.measureContext.font = font;
+        width = this.measureContext.measureText(text).width;
+      } else {
+        width = text.length * fontSize(font) * GLYPH_WIDTH;
+      }
+      this.widths.set(key, width);
+    }
+    return width;
+  }
+}
+
+/**
+ * Add a box to the collision grid unless it overlaps a box already there
+ */
+function placeBox(grid: Map<string, Box[]>, box: Box): boolean {
+  const cells: string[] = [];
+  for (let column = Math.floor(box[0] / GRID_CELL); column <= box[2] / GRID_CELL; column++) {
+    for (let row = Math.floor(box[1] / GRID_CELL); row <= box[3] / GRID_CELL; row++) {
+      cells.push(`${column},${row}`);
+    }
+  }
+
+  const overlaps = (other: Box) =>
+    box[0] < other[2] && other[0] < box[2] && box[1] < other[3] && other[1] < box[3];
+  if (cells.some((cell) => grid.get(cell)?.some(overlaps))) return false;
+
+  for (const cell of cells) {
+    const boxes = grid.get(cell);
+    boxes ? boxes.push(box) : grid.set(cell, [box]);
+  }
+  return true;
+}
+
+/**
+ * A per-feature value read from a property (converted by `convert`) or computed by a function
+ */
+function propertyOrFunction<T>(
+  source: string | FeatureStyleFunction<T>,
+  convert: (value: unknown) => T
+): FeatureStyleFunction<T> {
+  return typeof source === 'function'
+    ? source
+    : (feature) => convert(feature.properties?.[source]);
+}
+
+function toPosition(value: unknown): [number, number] | undefined {
+  if (!Array.isArray(value) || value.length < 2) return undefined;
+  const [lon, lat] = value.map(Number);
+  return Number.isFinite(lon) && Number.isFinite(lat) ? [lon, lat] : undefined;
+}
+
+/**
+ * Default anchor: the point of Point features, else the centroid of the largest part (so
+ * islands and overseas territories don't pull a country's label into the sea)
+ */
+function labelPoint(feature: Feature): Position | undefined {
+  const geometry = feature.geometry;
+  if (!geometry) return undefined;
+  if (geometry.type === 'Point') return geometry.coordinates;
+
+  let target: GeoPermissibleObjects = feature;
+  if (geometry.type === 'MultiPolygon') {
+    const parts = geometry.coordinates.map(
+      (coordinates): Polygon => ({ type: 'Polygon', coordinates })
+    );
+    target = d3.greatest(parts, (part) => d3.geoArea(part)) ?? feature;
+  }
+  const centroid = d3.geoCentroid(target);
+  return centroid.every(Number.isFinite) ? centroid : undefined;
+}
+
+/**
+ * Font size in px from a CSS font shorthand (12 when it can't be read)
+ */
+function fontSize(font: string): number {
+  const match = /(\d+(?:\.\d+)?)px/.exec(font);
+  return match ? Number(match[1]) : 12;
+}
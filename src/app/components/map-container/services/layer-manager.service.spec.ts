@@ -0,0 +1,42 @@
+import { TestBed } from '@angular/core/testing';
+import { FeatureCollection } from 'geojson';
+import { LayerManagerService } from './layer-manager.service';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+
+const EMPTY: FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+describe('LayerManagerService', () => {
+  let layers: LayerManagerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: MAP_INSTANCE_PROVIDERS });
+    layers = TestBed.inject(LayerManagerService);
+    ['base', 'rivers', 'cities'].forEach((id) => layers.add({ id, data: EMPTY }));
+  });
+
+  it('should keep layers in draw order', () => {
+    layers.bringToFront('base');
+    expect(layers.list().map((layer) => layer.id)).toEqual(['rivers', 'cities', 'base']);
+
+    layers.reorder(['cities']);
+    expect(layers.list().map((layer) => layer.id)).toEqual(['cities', 'rivers', 'base']);
+
+    layers.add({ id: 'labels', data: EMPTY }, 1);
+    layers.remove('rivers');
+    expect(layers.list().map((layer) => layer.id)).toEqual(['cities', 'labels', 'base']);
+    expect(() => layers.add({ id: 'base', data: EMPTY })).toThrowError(/already exists/);
+  });
+
+  it('should update visibility and opacity and notify listeners', () => {
+    let changes = 0;
+    layers.onLayersChange.subscribe(() => changes++);
+
+    layers.hide('rivers');
+    layers.setOpacity('cities', 1.5);
+
+    expect(layers.get('rivers')?.visible).toBe(false);
+    expect(layers.get('cities')?.opacity).toBe(1);
+    expect(changes).toBe(2);
+    expect(() => layers.show('missing')).toThrowError(/Unknown layer/);
+  });
+});
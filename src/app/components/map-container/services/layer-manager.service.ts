@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+import { FeatureCollection } from 'geojson';
+import { Subject } from 'rxjs';
+import { LayerStyle, MapLayer } from '../models/map.types';
+
+/**
+ * Layer Manager Service
+ * Registry of the map's layers in draw order (first = bottom). Every change emits
+ * onLayersChange so the map re-renders all layers through MapRendererService.renderLayers().
+ */
+@Injectable()
+export class LayerManagerService {
+  private layers: MapLayer[] = [];
+
+  public onLayersChange = new Subject<void>();
+
+  /**
+   * Add a layer on top, or at an index in the draw order. Throws if the id is taken.
+   */
+  add(layer: MapLayer, index?: number): void {
+    if (this.has(layer.id)) {
+      throw new Error(`Layer "${layer.id}" already exists`);
+    }
+
+    const position = index === undefined ? this.layers.length : this.clampIndex(index);
+    this.layers.splice(position, 0, { visible: true, opacity: 1, ...layer });
+    this.onLayersChange.next();
+  }
+
+  /**
+   * Remove a layer (no-op if it does not exist)
+   */
+  remove(id: string): void {
+    const index = this.indexOf(id);
+    if (index < 0) return;
+
+    this.layers.splice(index, 1);
+    this.onLayersChange.next();
+  }
+
+  /**
+   * Remove all layers
+   */
+  clear(): void {
+    this.layers = [];
+    this.onLayersChange.next();
+  }
+
+  /**
+   * Check whether a layer is registered
+   */
+  has(id: string): boolean {
+    return this.indexOf(id) >= 0;
+  }
+
+  /**
+   * Get a layer by id
+   */
+  get(id: string): MapLayer | undefined {
+    return this.layers.find((layer) => layer.id === id);
+  }
+
+  /**
+   * All layers in draw order (bottom first)
+   */
+  list(): MapLayer[] {
+    return [...this.layers];
+  }
+
+  /**
+   * Update a layer's properties. Throws if the layer does not exist.
+   */
+  update(id: string, changes: Partial<Omit<MapLayer, 'id'>>): void {
+    const index = this.requireIndex(id);
+    this.layers[index] = { ...this.layers[index], ...changes };
+    this.onLayersChange.next();
+  }
+
+  /**
+   * Replace a layer's features
+   */
+  setData(id: string, data: FeatureCollection): void {
+    this.update(id, { data });
+  }
+
+  /**
+   * Replace a layer's style
+   */
+  setStyle(id: string, style: LayerStyle): void {
+    this.update(id, { style });
+  }
+
+  /**
+   * Set a layer's opacity (0-1)
+   */
+  setOpacity(id: string, opacity: number): void {
+    this.update(id, { opacity: Math.max(0, Math.min(1, opacity)) });
+  }
+
+  /**
+   * Show or hide a layer
+   */
+  setVisible(id: string, visible: boolean): void {
+    this.update(id, { visible });
+  }
+
+  show(id: string): void {
+    this.setVisible(id, true);
+  }
+
+  hide(id: string): void {
+    this.setVisible(id, false);
+  }
+
+  /**
+   * Move a layer to an index in the draw order (0 = bottom)
+   */
+  moveTo(id: string, index: number): void {
+    const [layer] = this.layers.splice(this.requireIndex(id), 1);
+    this.layers.splice(this.clampIndex(index), 0, layer);
+    this.onLayersChange.next();
+  }
+
+  /**
+   * Draw a layer above all others
+   */
+  bringToFront(id: string): void {
+    this.moveTo(id, this.layers.length - 1);
+  }
+
+  /**
+   * Draw a layer below all others
+   */
+  sendToBack(id: string): void {
+    this.moveTo(id, 0);
+  }
+
+  /**
+   * Set the complete draw order; ids not listed keep their relative order on top
+   */
+  reorder(ids: string[]): void {
+    const listed = ids.map((id) => this.layers[this.requireIndex(id)]);
+    const rest = this.layers.filter((layer) => !ids.includes(layer.id));
+    this.layers = [...listed, ...rest];
+    this.onLayersChange.next();
+  }
+
+  private indexOf(id: string): number {
+    return this.layers.findIndex((layer) => layer.id === id);
+  }
+
+  private requireIndex(id: string): number {
+    const index = this.indexOf(id);
+    if (index < 0) {
+      throw new Error(`Unknown layer "${id}"`);
+    }
+    return index;
+  }
+
+  /**
+   * Clamp an insertion index to [0, layer count]
+   */
+  private clampIndex(index: number): number {
+    return Math.max(0, Math.min(this.layers.length, index));
+  }
+}
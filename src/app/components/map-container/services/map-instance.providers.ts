@@ -0,0 +1,23 @@
+import { Provider } from '@angular/core';
+import { AnimationControllerService } from './animation-controller.service';
+import { FrameExportService } from './frame-export.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { LayerManagerService } from './layer-manager.service';
+import { MapRendererService } from './map-renderer.service';
+import { PointLayerService } from './point-layer.service';
+import { StoryLoaderService } from './story-loader.service';
+
+/**
+ * Services holding the state of one map: projection and zoom, layers, animations and cluster
+ * features. Every MapContainerComponent provides its own set, so several maps on a page keep
+ * their own views. The remaining services only cache derived data and stay root singletons.
+ */
+export const MAP_INSTANCE_PROVIDERS: Provider[] = [
+  GeoZoomService,
+  AnimationControllerService,
+  MapRendererService,
+  LayerManagerService,
+  FrameExportService,
+  StoryLoaderService,
+  PointLayerService,
+];
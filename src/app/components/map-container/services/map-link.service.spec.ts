@@ -0,0 +1,89 @@
+import { Injector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { GeoProjection } from 'd3-geo';
+import { GeoZoomService } from './geo-zoom.service';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+import { MapLinkService } from './map-link.service';
+import { MapScaleService } from './map-scale.service';
+
+describe('MapLinkService', () => {
+  let mapLink: MapLinkService;
+  let mapScale: MapScaleService;
+  let elements: HTMLElement[];
+  let maps: GeoZoomService[];
+
+  // A map with its own set of instance services, as MapContainerComponent creates them
+  const createMap = (projection: GeoProjection, width: number, height: number) => {
+    const injector = Injector.create({
+      providers: MAP_INSTANCE_PROVIDERS,
+      parent: TestBed.inject(Injector),
+    });
+    const map = injector.get(GeoZoomService);
+    const element = document.createElement('div');
+    map.init(element, projection.fitSize([width, height], { type: 'Sphere' }), width, height, {
+      scaleExtent: [0.5, 20],
+    });
+    elements.push(element);
+    maps.push(map);
+    return map;
+  };
+
+  const resolution = (map: GeoZoomService) => {
+    const [width, height] = map.getViewportSize();
+    return mapScale.groundResolution(map.getProjection()!, [width / 2, height / 2]);
+  };
+
+  const near = (lon: number, lat: number) => [expect.closeTo(lon, 6), expect.closeTo(lat, 6)];
+
+  beforeEach(() => {
+    mapLink = TestBed.inject(MapLinkService);
+    mapScale = TestBed.inject(MapScaleService);
+    elements = [];
+    maps = [];
+  });
+
+  afterEach(() => {
+    maps.forEach((map, i) => map.destroy(elements[i]));
+  });
+
+  it('should give every map its own view', () => {
+    const flat = createMap(d3.geoEquirectangular(), 600, 300);
+    const globe = createMap(d3.geoOrthographic(), 300, 300);
+    expect(flat).not.toBe(globe);
+
+    flat.setView({ center: [30, 40], scale: 4 });
+    expect(globe.getCurrentState()).toEqual(expect.objectContaining({ center: [0, 0], scale: 1 }));
+  });
+
+  it('should move linked maps to the same center and ground resolution', () => {
+    const flat = createMap(d3.geoEquirectangular(), 600, 300);
+    const globe = createMap(d3.geoOrthographic(), 300, 300);
+    mapLink.link('compare', flat);
+    const unlink = mapLink.link('compare', globe);
+
+    flat.setView({ center: [30, 40], scale: 4 });
+    expect(globe.getCurrentState().center).toEqual(near(30, 40));
+    expect(resolution(globe)! / resolution(flat)!).toBeCloseTo(1, 2);
+
+    // Either map leads
+    globe.setView({ center: [-60, -10], scale: 2 });
+    expect(flat.getCurrentState().center).toEqual(near(-60, -10));
+    expect(resolution(flat)! / resolution(globe)!).toBeCloseTo(1, 2);
+
+    unlink();
+    flat.setView({ center: [0, 0], scale: 1 });
+    expect(globe.getCurrentState().center).toEqual(near(-60, -10));
+  });
+
+  it('should bring a map joining a group to the group view', () => {
+    const leader = createMap(d3.geoEquirectangular(), 600, 300);
+    leader.setView({ center: [10, 50], scale: 3 });
+    mapLink.link('compare', leader);
+
+    const joining = createMap(d3.geoNaturalEarth1(), 400, 400);
+    mapLink.link('compare', joining);
+    expect(joining.getCurrentState().center).toEqual(near(10, 50));
+    expect(resolution(joining)! / resolution(leader)!).toBeCloseTo(1, 2);
+  });
+});
@@ -0,0 +1,110 @@
+import { Injectable, inject } from '@angular/core';
+import { GeoZoomService } from './geo-zoom.service';
+import { MapScaleService } from './map-scale.service';
+
+/**
+ * View shared by linked maps
+ */
+interface LinkedView {
+  center: [number, number]; // [longitude, latitude]
+  resolution?: number; // km per pixel at the center; undefined when it can't be measured
+}
+
+/**
+ * Map Link Service
+ * Keeps the views of linked maps in step. Maps link into a named group; whenever one of them
+ * moves, the others are centered on the same location at the same ground resolution (km per
+ * pixel at the center), so maps in different projections or sizes show comparable areas.
+ * The map that moved last leads.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MapLinkService {
+  private mapScale = inject(MapScaleService);
+
+  private groups = new Map<string, Set<GeoZoomService>>();
+  // Set while followers are moved, so the changes they emit are not linked back
+  private syncing = false;
+
+  /**
+   * Link a map into a group. It jumps to the group's view, then moves with the group.
+   * Returns the function that unlinks it.
+   */
+  link(group: string, map: GeoZoomService): () => void {
+    let members = this.groups.get(group);
+    if (!members) {
+      members = new Set();
+      this.groups.set(group, members);
+    }
+
+    const [leader] = members;
+    if (leader) {
+      this.follow(map, leader);
+    }
+    members.add(map);
+
+    const subscription = map.onProjectionChange.subscribe(() => {
+      if (!this.syncing) this.sync(group, map);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      members.delete(map);
+      if (!members.size) this.groups.delete(group);
+    };
+  }
+
+  /**
+   * Move every other map of a group to the view of one of them
+   */
+  private sync(group: string, leader: GeoZoomService): void {
+    const view = this.view(leader);
+    if (!view) return;
+
+    this.syncing = true;
+    try {
+      for (const map of this.groups.get(group) ?? []) {
+        if (map !== leader) this.showView(map, view);
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private follow(map: GeoZoomService, leader: GeoZoomService): void {
+    const view = this.view(leader);
+    if (view) this.showView(map, view);
+  }
+
+  private view(map: GeoZoomService): LinkedView | undefined {
+    const projection = map.getProjection();
+    if (!projection) return undefined;
+
+    const [width, height] = map.getViewportSize();
+    return {
+      center: map.getCurrentState().center,
+      resolution: this.mapScale.groundResolution(projection, [width / 2, height / 2]),
+    };
+  }
+
+  /**
+   * Center a map on a view, then zoom it to the view's resolution. Ground resolution at a
+   * fixed center is inversely proportional to scale, so one measurement finds the scale.
+   */
+  private showView(map: GeoZoomService, { center, resolution }: LinkedView): void {
+    const projection = map.getProjection();
+    if (!projection || map.isMorphing()) return;
+
+    map.setCenter(center, false);
+
+    const [width, height] = map.getViewportSize();
+    const current = this.mapScale.groundResolution(projection, [width / 2, height / 2]);
+    const { scale } = map.getCurrentState();
+    const [minScale, maxScale] = map.getScaleExtent();
+    const linked = resolution && current ? (scale * current) / resolution : scale;
+
+    // Emits onProjectionChange, which re-renders the map
+    map.setScale(Math.min(Math.max(linked, minScale), maxScale), false);
+  }
+}
@@ -1,8 +1,31 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import * as d3 from 'd3';
 import { GeoPath, GeoProjection } from 'd3-geo';
-import { FeatureCollection } from 'geojson';
-import { RenderMode } from '../models/map.types';
+import { Feature, FeatureCollection } from 'geojson';
+import { Subject } from 'rxjs';
+import {
+  FeatureHit,
+  FlowArc,
+  LayerStyle,
+  MapLayer,
+  PlacedLabel,
+  PointMarker,
+  RasterPixels,
+  RenderMode,
+  ResolvedStyle,
+} from '../models/map.types';
+import { CompiledStyle, FeatureStyleService } from './feature-style.service';
+import { FlowLayerService, FlowParticle } from './flow-layer.service';
+import { DrawnLayers, HitTestService } from './hit-test.service';
+import { LabelLayerService } from './label-layer.service';
+import { RasterTileService, SlippyTile } from './raster-tile.service';
+import { VectorTileService } from './vector-tile.service';
+import {
+  DEFAULT_CLUSTER_STYLE,
+  POINT_SHAPES,
+  PointLayerService,
+  isClusterFeature,
+} from './point-layer.service';
 
 export interface RenderContext {
   svg?: d3.Selection<SVGSVGElement, unknown, null, undefined>;
@@ -10,12 +33,41 @@ export interface RenderContext {
   context?: CanvasRenderingContext2D;
   mode: RenderMode;
   path: GeoPath;
+  // Layers currently drawn on a canvas, bottom first, so one can be removed by redrawing the rest
+  canvasLayers?: MapLayer[];
+  // Markers, arcs and labels of the points, flows and labels layers as last drawn (for
+  // hit-testing)
+  drawn?: DrawnLayers;
+  // Clock in ms for layer animations such as flow particles (default 0)
+  time?: number;
+  // Canvas over a page canvas that flow particles move on, so the layers under them are not
+  // redrawn every frame (frame export draws them in place)
+  particleCanvas?: HTMLCanvasElement;
 }
 
-@Injectable({
-  providedIn: 'root',
-})
+const CLUSTER_LABEL_FONT = 'bold 11px sans-serif';
+
+@Injectable()
 export class MapRendererService {
+  private featureStyle = inject(FeatureStyleService);
+  private hitTester = inject(HitTestService);
+  private pointLayers = inject(PointLayerService);
+  private flowLayers = inject(FlowLayerService);
+  private labelLayers = inject(LabelLayerService);
+  private vectorTiles = inject(VectorTileService);
+  private rasterTiles = inject(RasterTileService);
+
+  // Emitted when a marker image has loaded, so canvas maps can draw it
+  public onIconLoad = new Subject<void>();
+
+  // Marker images by URL, shared by every render context
+  private icons = new Map<string, HTMLImageElement>();
+  // Raster tiles and frames as images, and their data URLs for SVG
+  private rasterImages = new WeakMap<RasterPixels, HTMLCanvasElement>();
+  private rasterUrls = new WeakMap<HTMLCanvasElement, string>();
+  // Scratch canvases for fading translucent layers as a whole, by the canvas they're drawn onto
+  private layerCanvases = new WeakMap<HTMLCanvasElement, HTMLCanvasElement>();
+
   /**
    * Initialize SVG renderer
    */
@@ -50,11 +102,33 @@ export class MapRendererService {
     height: number,
     projection: GeoProjection
   ): RenderContext {
+    const renderContext = this.createCanvasContext(width, height, projection);
+    const canvas = renderContext.canvas as HTMLCanvasElement;
+    canvas.className = 'map-canvas';
+    container.appendChild(canvas);
+
+    const particleCanvas = document.createElement('canvas');
+    particleCanvas.width = width;
+    particleCanvas.height = height;
+    particleCanvas.className = 'map-particles';
+    Object.assign(particleCanvas.style, {
+      position: 'absolute',
+      top: '0',
+      left: '0',
+      pointerEvents: 'none',
+    });
+    container.appendChild(particleCanvas);
+
+    return { ...renderContext, particleCanvas };
+  }
+
+  /**
+   * Create a canvas render context that is not attached to the page (e.g. for frame export)
+   */
+  createCanvasContext(width: number, height: number, projection: GeoProjection): RenderContext {
     const canvas = document.createElement('canvas');
     canvas.width = width;
     canvas.height = height;
-    canvas.className = 'map-canvas';
-    container.appendChild(canvas);
 
     const context = canvas.getContext('2d');
     if (!context) {
@@ -79,7 +153,7 @@ export class MapRendererService {
     data: FeatureCollection,
     options?: {
       layer?: string;
-      style?: { fill?: string; stroke?: string; strokeWidth?: number; fillOpacity?: number };
+      style?: LayerStyle;
     }
   ): void {
     if (renderContext.mode === 'svg' && renderContext.svg) {
@@ -89,6 +163,71 @@ export class MapRendererService {
     }
   }
 
+  /**
+   * Render a full layer stack (bottom first), replacing whatever was drawn before.
+   * Hidden layers are skipped; opacity applies to each layer as a whole.
+   */
+  renderLayers(renderContext: RenderContext, layers: MapLayer[]): void {
+    const visible = layers
+      .filter((layer) => layer.visible !== false)
+      .map((layer) =>
+        layer.type === 'vector-tiles' ? this.tileLayer(renderContext, layer) : layer
+      );
+    renderContext.drawn = {};
+
+    if (renderContext.mode === 'svg' && renderContext.svg) {
+      this.renderSvgLayers(renderContext, visible);
+    } else if (renderContext.mode === 'canvas' && renderContext.context) {
+      renderContext.canvasLayers = visible;
+      this.redrawCanvas(renderContext);
+      this.redrawParticleCanvas(renderContext, visible);
+    }
+  }
+
+  /**
+   * Move the particles of flows layers drawn by the last renderLayers() to the render context's
+   * time, leaving everything else as drawn. On canvas they are on the particle canvas, above
+   * the other layers; a canvas without one is redrawn in full.
+   */
+  renderParticles(renderContext: RenderContext, layers: MapLayer[]): void {
+    if (renderContext.mode === 'svg' && renderContext.svg) {
+      renderContext.svg.selectAll<SVGGElement, MapLayer>('g.map-layer').each((drawn, i, nodes) => {
+        const layer = layers.find((item) => item.id === drawn.id);
+        if (!layer) return;
+        const group = d3
+          .select<SVGGElement, MapLayer>(nodes[i])
+          .select<SVGGElement>('g.flow-particles');
+        group.selectAll('*').remove();
+        this.renderSvgParticles(renderContext, group, layer);
+      });
+    } else if (renderContext.mode === 'canvas' && renderContext.particleCanvas) {
+      this.redrawParticleCanvas(renderContext, layers);
+    } else if (renderContext.mode === 'canvas' && renderContext.context) {
+      this.redrawCanvas(renderContext);
+    }
+  }
+
+  /**
+   * Visible flows layers with particles and a drawn arc in view, as of the last renderLayers()
+   */
+  particleLayers(renderContext: RenderContext, layers: MapLayer[]): MapLayer[] {
+    const viewport = this.viewport(renderContext);
+    if (!viewport) return [];
+
+    const path = d3.geoPath(renderContext.path.projection() as GeoProjection);
+    const inView = (arc: FlowArc) => {
+      const [[x0, y0], [x1, y1]] = path.bounds(arc.geometry);
+      return x1 >= 0 && y1 >= 0 && x0 <= viewport[0] && y0 <= viewport[1];
+    };
+    return layers.filter(
+      (layer) =>
+        layer.type === 'flows' &&
+        layer.visible !== false &&
+        this.flowLayers.particleOptions(layer) !== undefined &&
+        (renderContext.drawn?.arcs?.[layer.id] ?? []).some(inView)
+    );
+  }
+
   /**
    * Render to SVG
    */
@@ -97,36 +236,439 @@ export class MapRendererService {
     data: FeatureCollection,
     options?: {
       layer?: string;
-      style?: { fill?: string; stroke?: string; strokeWidth?: number; fillOpacity?: number };
+      style?: LayerStyle;
     }
   ): void {
     if (!renderContext.svg) return;
 
     const layer = options?.layer || 'base';
-    const defaults = { fill: '#ccc', stroke: '#333', strokeWidth: 0.5, fillOpacity: 1 };
-    const style = Object.assign({}, defaults, options?.style || {});
 
     // Remove existing paths for this layer only
     renderContext.svg.selectAll(`path.layer-${layer}`).remove();
 
     // Add new paths for this layer - one path per feature
+    const paths = renderContext.svg
+      .selectAll(`path.layer-${layer}`)
+      .data(data.features, (d: any, i: number) => i)
+      .enter()
+      .append('path');
+    this.styleSvgPaths(
+      renderContext,
+      paths,
+      layer,
+      this.featureStyle.compile(options?.style, data)
+    );
+  }
+
+  /**
+   * Render layers to SVG: one <g> per layer, kept in draw order
+   */
+  private renderSvgLayers(renderContext: RenderContext, layers: MapLayer[]): void {
+    if (!renderContext.svg) return;
+
+    const groups = renderContext.svg
+      .selectAll<SVGGElement, MapLayer>('g.map-layer')
+      .data(layers, (layer) => layer.id)
+      .join('g')
+      .attr('class', (layer) => `map-layer map-layer-${layer.id}`)
+      .attr('opacity', (layer) => String(layer.opacity ?? 1))
+      .attr('pointer-events', (layer) => (layer.interactive === false ? 'none' : null))
+      .order();
+
+    groups.each((layer, i, nodes) => {
+      const group = d3.select<SVGGElement, MapLayer>(nodes[i]);
+      group.selectAll('*').remove();
+
+      if (layer.type === 'points') {
+        this.renderSvgMarkers(renderContext, group, layer);
+        return;
+      }
+      if (layer.type === 'flows') {
+        this.renderSvgFlows(renderContext, group, layer);
+        return;
+      }
+      if (layer.type === 'labels') {
+        this.renderSvgLabels(renderContext, group, layer);
+        return;
+      }
+      if (layer.type === 'raster-tiles') {
+        this.renderSvgRaster(renderContext, group, layer);
+        return;
+      }
+
+      const paths = group.selectAll('path').data(layer.data.features).enter().append('path');
+      this.styleSvgPaths(
+        renderContext,
+        paths,
+        layer.id,
+        this.featureStyle.compile(layer.style, layer.data)
+      );
+    });
+  }
+
+  /**
+   * Render a points layer's markers into its SVG group
+   */
+  private renderSvgMarkers(
+    renderContext: RenderContext,
+    group: d3.Selection<SVGGElement, MapLayer, null, undefined>,
+    layer: MapLayer
+  ): void {
+    const markers = this.layerMarkers(renderContext, layer);
+    const style = this.markerStyle(layer);
+
+    for (const marker of markers) {
+      const resolved = style(marker);
+      const [x, y] = [marker.x, marker.y];
+      const shape = isClusterFeature(marker.feature) ? undefined : layer.symbol?.shape;
+      let element: d3.Selection<SVGElement, MapLayer, null, undefined>;
+
+      if (shape && typeof shape === 'object' && 'icon' in shape) {
+        element = group
+          .append<SVGElement>('image')
+          .attr('href', shape.icon)
+          .attr('x', x - shape.width / 2)
+          .attr('y', y - shape.height / 2)
+          .attr('width', shape.width)
+          .attr('height', shape.height);
+      } else if (shape && typeof shape === 'object') {
+        // Custom path data is drawn in a [-1, 1] box; keep its stroke width in screen pixels
+        element = group
+          .append<SVGElement>('path')
+          .attr('d', shape.path)
+          .attr('transform', `translate(${x},${y}) scale(${marker.radius})`)
+          .attr('vector-effect', 'non-scaling-stroke');
+      } else {
+        element = group
+          .append<SVGElement>('path')
+          .attr('d', this.symbolPath(shape ?? 'circle', marker.radius))
+          .attr('transform', `translate(${x},${y})`);
+      }
+
+      element
+        .datum(marker.feature)
+        .attr('class', `geo-feature marker layer-${layer.id}`)
+        .attr('fill', resolved.fill)
+        .attr('fill-opacity', String(resolved.fillOpacity))
+        .attr('stroke', resolved.stroke)
+        .attr('stroke-width', String(resolved.strokeWidth));
+
+      if (marker.count > 1) {
+        group
+          .append('text')
+          .attr('class', 'marker-label')
+          .attr('x', x)
+          .attr('y', y)
+          .attr('dy', '0.35em')
+          .attr('text-anchor', 'middle')
+          .attr('fill', '#fff')
+          .style('font', CLUSTER_LABEL_FONT)
+          .attr('pointer-events', 'none')
+          .text(marker.count);
+      }
+    }
+  }
+
+  /**
+   * Render a flows layer's arcs and particles into its SVG group
+   */
+  private renderSvgFlows(
+    renderContext: RenderContext,
+    group: d3.Selection<SVGGElement, MapLayer, null, undefined>,
+    layer: MapLayer
+  ): void {
+    const style = this.featureStyle.compile(layer.style, layer.data);
+
+    for (const arc of this.layerArcs(renderContext, layer)) {
+      const resolved = style(arc.feature, arc.index);
+      group
+        .append('path')
+        .datum(arc.feature)
+        .attr('class', `geo-feature flow layer-${layer.id}`)
+        .attr('d', renderContext.path(arc.geometry))
+        .attr('fill', 'none')
+        .attr('stroke', resolved.stroke)
+        .attr('stroke-width', String(arc.width))
+        .attr('stroke-linecap', 'round');
+    }
+
+    const particles = group.append('g').attr('class', 'flow-particles');
+    this.renderSvgParticles(renderContext, particles, layer);
+  }
+
+  /**
+   * Render a flows layer's particles into their SVG group, colored like their arcs by default
+   */
+  private renderSvgParticles(
+    renderContext: RenderContext,
+    group: d3.Selection<SVGGElement, MapLayer, null, undefined>,
+    layer: MapLayer
+  ): void {
+    const options = this.flowLayers.particleOptions(layer);
+    if (!options) return;
+
+    const style = this.featureStyle.compile(layer.style, layer.data);
+    for (const particle of this.layerParticles(renderContext, layer)) {
+      group
+        .append('circle')
+        .attr('class', 'flow-particle')
+        .attr('cx', particle.x)
+        .attr('cy', particle.y)
+        .attr('r', options.radius)
+        .attr('fill', options.color ?? style(particle.feature, particle.index).stroke)
+        .attr('pointer-events', 'none');
+    }
+  }
+
+  /**
+   * Render a labels layer's placed labels into its SVG group
+   */
+  private renderSvgLabels(
+    renderContext: RenderContext,
+    group: d3.Selection<SVGGElement, MapLayer, null, undefined>,
+    layer: MapLayer
+  ): void {
+    const style = this.labelLayers.labelStyle(layer);
+
+    for (const label of this.layerLabels(renderContext, layer)) {
+      const text = group
+        .append('text')
+        .datum(label.feature)
+        .attr('class', `geo-feature label layer-${layer.id}`)
+        .attr('x', label.x)
+        .attr('y', label.y)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('fill', style.color(label.feature, label.index))
+        .style('font', style.font)
+        .text(label.text);
+
+      if (style.halo) {
+        // The stroke straddles the glyph outlines and is painted under the fill
+        text
+          .attr('stroke', style.halo.color)
+          .attr('stroke-width', String(style.halo.width * 2))
+          .attr('stroke-linejoin', 'round')
+          .attr('paint-order', 'stroke');
+      }
+    }
+  }
+
+  /**
+   * Render a raster tiles layer's image into its SVG group
+   */
+  private renderSvgRaster(
+    renderContext: RenderContext,
+    group: d3.Selection<SVGGElement, MapLayer, null, undefined>,
+    layer: MapLayer
+  ): void {
+    const slippyTiles = this.slippyTiles(renderContext, layer);
+    if (slippyTiles) {
+      // Each tile in a nested <svg> whose viewBox crops the image
+      for (const tile of slippyTiles) {
+        const url = this.rasterUrl(tile.pixels);
+        if (!url) continue;
+        group
+          .append('svg')
+          .attr('class', 'raster-tiles')
+          .attr('x', tile.x)
+          .attr('y', tile.y)
+          .attr('width', tile.width)
+          .attr('height', tile.height)
+          .attr('viewBox', tile.crop.join(' '))
+          .attr('preserveAspectRatio', 'none')
+          .attr('pointer-events', 'none')
+          .append('image')
+          .attr('href', url)
+          .attr('width', tile.pixels.width)
+          .attr('height', tile.pixels.height);
+      }
+      return;
+    }
+
+    const frame = this.rasterFrame(renderContext, layer);
+    const url = frame && this.rasterUrl(frame);
+    const viewport = this.viewport(renderContext);
+    if (!url || !viewport) return;
+
+    group
+      .append('image')
+      .attr('class', 'raster-tiles')
+      .attr('href', url)
+      .attr('width', viewport[0])
+      .attr('height', viewport[1])
+      .attr('preserveAspectRatio', 'none')
+      .attr('pointer-events', 'none');
+  }
+
+  /**
+   * Compute a flows layer's drawn arcs and keep them for hit-testing
+   */
+  private layerArcs(renderContext: RenderContext, layer: MapLayer): FlowArc[] {
+    const arcs = this.flowLayers.arcs(layer);
+    const drawn = (renderContext.drawn ??= {});
+    drawn.arcs = { ...drawn.arcs, [layer.id]: arcs };
+    return arcs;
+  }
+
+  /**
+   * A flows layer's particles at the render context's time
+   */
+  private layerParticles(renderContext: RenderContext, layer: MapLayer): FlowParticle[] {
+    const projection = renderContext.path.projection() as GeoProjection;
+    return this.flowLayers.particles(layer, projection, renderContext.time ?? 0);
+  }
+
+  /**
+   * Place a labels layer's labels in the viewport and keep them for hit-testing
+   */
+  private layerLabels(renderContext: RenderContext, layer: MapLayer): PlacedLabel[] {
+    const projection = renderContext.path.projection() as GeoProjection;
+    const labels = this.labelLayers.labels(layer, projection, this.viewport(renderContext));
+    const drawn = (renderContext.drawn ??= {});
+    drawn.labels = { ...drawn.labels, [layer.id]: labels };
+    return labels;
+  }
+
+  /**
+   * A vector tiles layer as a GeoJSON layer of the tile features currently in view
+   */
+  private tileLayer(renderContext: RenderContext, layer: MapLayer): MapLayer {
+    const projection = renderContext.path.projection() as GeoProjection;
+    const viewport = this.viewport(renderContext);
+    return {
+      ...layer,
+      type: 'geojson',
+      data: viewport ? this.vectorTiles.features(layer, projection, viewport) : layer.data,
+    };
+  }
+
+  /**
+   * A raster tiles layer's tiles placed directly on a Web Mercator view, or undefined when the
+   * view needs reprojecting
+   */
+  private slippyTiles(renderContext: RenderContext, layer: MapLayer): SlippyTile[] | undefined {
+    const projection = renderContext.path.projection() as GeoProjection;
+    const viewport = this.viewport(renderContext);
+    return viewport && this.rasterTiles.slippyTiles(layer, projection, viewport);
+  }
+
+  /**
+   * A raster tiles layer's reprojected image of the view (full frame or preview), or undefined
+   * while no tiles are in view
+   */
+  private rasterFrame(renderContext: RenderContext, layer: MapLayer): RasterPixels | undefined {
+    const projection = renderContext.path.projection() as GeoProjection;
+    const viewport = this.viewport(renderContext);
+    return viewport && this.rasterTiles.frame(layer, projection, viewport);
+  }
+
+  /**
+   * Raster pixels as a canvas, cached per pixels
+   */
+  private pixelsImage(pixels: RasterPixels): HTMLCanvasElement | undefined {
+    let image = this.rasterImages.get(pixels);
+    if (!image) {
+      image = document.createElement('canvas');
+      image.width = pixels.width;
+      image.height = pixels.height;
+      const context = image.getContext('2d');
+      if (!context) return undefined;
+
+      const imageData = context.createImageData(pixels.width, pixels.height);
+      imageData.data.set(pixels.data);
+      context.putImageData(imageData, 0, 0);
+      this.rasterImages.set(pixels, image);
+    }
+    return image;
+  }
+
+  /**
+   * Raster pixels as a data URL for SVG
+   */
+  private rasterUrl(pixels: RasterPixels): string | undefined {
+    const image = this.pixelsImage(pixels);
+    if (!image) return undefined;
+
+    let url = this.rasterUrls.get(image);
+    if (!url) {
+      url = image.toDataURL();
+      this.rasterUrls.set(image, url);
+    }
+    return url;
+  }
+
+  /**
+   * Size of the drawing surface in px
+   */
+  private viewport(renderContext: RenderContext): [number, number] | undefined {
+    if (renderContext.canvas) {
+      return [renderContext.canvas.width, renderContext.canvas.height];
+    }
+    const width = Number(renderContext.svg?.attr('width'));
+    const height = Number(renderContext.svg?.attr('height'));
+    return width > 0 && height > 0 ? [width, height] : undefined;
+  }
+
+  /**
+   * Compute a points layer's markers and keep them for hit-testing
+   */
+  private layerMarkers(renderContext: RenderContext, layer: MapLayer): PointMarker[] {
+    const projection = renderContext.path.projection() as GeoProjection;
+    const markers = this.pointLayers.markers(layer, projection);
+    const drawn = (renderContext.drawn ??= {});
+    drawn.markers = { ...drawn.markers, [layer.id]: markers };
+    return markers;
+  }
+
+  /**
+   * Marker style resolver: clusters use the cluster style, points the layer style
+   */
+  private markerStyle(layer: MapLayer): (marker: PointMarker) => ResolvedStyle {
+    const style = this.featureStyle.compile(layer.style, layer.data);
+    const clusterOptions = typeof layer.cluster === 'object' ? layer.cluster : {};
+    const clusterStyle = this.featureStyle.compile(
+      clusterOptions.style ?? DEFAULT_CLUSTER_STYLE,
+      layer.data
+    );
+    return (marker) =>
+      marker.count > 1
+        ? clusterStyle(marker.feature, marker.index)
+        : style(marker.feature, marker.index);
+  }
+
+  /**
+   * SVG path data for a d3 symbol with the area of a circle of the given radius
+   */
+  private symbolPath(shape: keyof typeof POINT_SHAPES, radius: number): string {
+    return d3.symbol(POINT_SHAPES[shape], Math.PI * radius * radius)() ?? '';
+  }
+
+  /**
+   * Set geometry and style attributes on SVG feature paths
+   */
+  private styleSvgPaths(
+    renderContext: RenderContext,
+    paths: d3.Selection<SVGPathElement, any, any, any>,
+    layer: string,
+    style: CompiledStyle
+  ): void {
     // NOTE: Polygon winding order (clockwise vs counter-clockwise) determines
     // which area gets filled in SVG. Counter-clockwise fills the interior,
     // clockwise fills the exterior. The 'fill-rule' attribute can help handle
     // edge cases, but correct winding order in source data is preferred.
-    const fillOpacity = style.fillOpacity ?? defaults.fillOpacity;
-    renderContext.svg
-      .selectAll(`path.layer-${layer}`)
-      .data(data.features, (d: any, i: number) => i)
-      .enter()
-      .append('path')
-      .attr('d', (d: any) => renderContext.path(d))
-      .attr('class', `geo-feature layer-${layer}`)
-      .attr('fill', style.fill ?? defaults.fill)
-      .attr('fill-opacity', String(fillOpacity))
-      .attr('fill-rule', 'evenodd') // Helps with complex polygons, but doesn't fix inverted winding
-      .attr('stroke', style.stroke ?? defaults.stroke)
-      .attr('stroke-width', String(style.strokeWidth ?? defaults.strokeWidth));
+    paths.each((feature, i, nodes) => {
+      const resolved = style(feature, i);
+      d3.select(nodes[i])
+        .attr('d', renderContext.path(feature))
+        .attr('class', `geo-feature layer-${layer}`)
+        .attr('fill', resolved.fill)
+        .attr('fill-opacity', String(resolved.fillOpacity))
+        // Helps with complex polygons, but doesn't fix inverted winding
+        .attr('fill-rule', 'evenodd')
+        .attr('stroke', resolved.stroke)
+        .attr('stroke-width', String(resolved.strokeWidth));
+    });
   }
 
   /**
@@ -137,55 +679,370 @@ export class MapRendererService {
     data: FeatureCollection,
     options?: {
       layer?: string;
-      style?: { fill?: string; stroke?: string; strokeWidth?: number; fillOpacity?: number };
+      style?: LayerStyle;
     }
   ): void {
-    if (!renderContext.context || !renderContext.canvas) return;
+    const { context, canvas } = renderContext;
+    if (!context || !canvas) return;
 
-    const ctx = renderContext.context;
-    const canvas = renderContext.canvas;
-    const layer = options?.layer || 'base';
-    const defaults = { fill: '#ccc', stroke: '#333', strokeWidth: 0.5, fillOpacity: 1 };
-    const style = Object.assign({}, defaults, options?.style || {});
+    const layer: MapLayer = { id: options?.layer || 'base', data, style: options?.style };
 
-    // Clear canvas only when drawing the base layer so overlays can be drawn on top
-    if (layer === 'base') {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Drawing the base layer starts a new frame so overlays can be drawn on top
+    if (layer.id === 'base') {
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      renderContext.canvasLayers = [];
     }
 
-    // Draw each feature applying style
-    ctx.save();
+    // Re-rendering a layer replaces it in place
+    const layers = renderContext.canvasLayers ?? [];
+    const index = layers.findIndex((drawn) => drawn.id === layer.id);
+    if (index >= 0) {
+      layers[index] = layer;
+      renderContext.canvasLayers = layers;
+      this.redrawCanvas(renderContext);
+    } else {
+      renderContext.canvasLayers = [...layers, layer];
+      this.drawCanvasLayer(renderContext, layer);
+    }
+  }
 
-    // Set fill and stroke styles
-    const hasFill = typeof style.fill === 'string' && style.fill.toLowerCase() !== 'none';
-    const fillOpacity = typeof style.fillOpacity === 'number' ? style.fillOpacity : 1;
+  /**
+   * Clear the canvas and draw its layers again (e.g. after a layer was removed)
+   */
+  private redrawCanvas(renderContext: RenderContext): void {
+    const { context, canvas } = renderContext;
+    if (!context || !canvas) return;
 
-    if (hasFill) {
-      ctx.fillStyle = style.fill || defaults.fill;
-      ctx.globalAlpha = fillOpacity;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    for (const layer of renderContext.canvasLayers ?? []) {
+      this.drawCanvasLayer(renderContext, layer);
     }
+  }
 
-    ctx.strokeStyle = style.stroke || defaults.stroke;
-    ctx.lineWidth = style.strokeWidth ?? defaults.strokeWidth;
+  /**
+   * Draw one layer onto the canvas. Like an SVG group's opacity, a translucent layer is painted
+   * opaque on a scratch canvas and faded as a whole, so its overlapping features don't show
+   * through each other.
+   */
+  private drawCanvasLayer(renderContext: RenderContext, layer: MapLayer): void {
+    const { context, canvas } = renderContext;
+    if (!context || !canvas) return;
+
+    const opacity = layer.opacity ?? 1;
+    if (opacity >= 1) {
+      this.paintCanvasLayer(renderContext, context, layer);
+      return;
+    }
 
-    for (const feature of data.features) {
+    const layerCanvas = this.layerCanvas(canvas);
+    const layerContext = layerCanvas.getContext('2d');
+    if (!layerContext) return;
+
+    layerContext.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+    renderContext.path.context(layerContext);
+    try {
+      this.paintCanvasLayer(renderContext, layerContext, layer);
+    } finally {
+      renderContext.path.context(context);
+    }
+
+    context.save();
+    context.globalAlpha = opacity;
+    context.drawImage(layerCanvas, 0, 0);
+    context.restore();
+  }
+
+  /**
+   * The scratch canvas for a canvas's translucent layers, sized to match it
+   */
+  private layerCanvas(canvas: HTMLCanvasElement): HTMLCanvasElement {
+    let layerCanvas = this.layerCanvases.get(canvas);
+    if (!layerCanvas) {
+      layerCanvas = document.createElement('canvas');
+      this.layerCanvases.set(canvas, layerCanvas);
+    }
+    if (layerCanvas.width !== canvas.width || layerCanvas.height !== canvas.height) {
+      layerCanvas.width = canvas.width;
+      layerCanvas.height = canvas.height;
+    }
+    return layerCanvas;
+  }
+
+  /**
+   * Paint one layer's features, at full opacity, with the given context
+   */
+  private paintCanvasLayer(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    if (layer.type === 'points') {
+      this.drawCanvasMarkers(renderContext, ctx, layer);
+      return;
+    }
+    if (layer.type === 'flows') {
+      this.drawCanvasFlows(renderContext, ctx, layer);
+      return;
+    }
+    if (layer.type === 'labels') {
+      this.drawCanvasLabels(renderContext, ctx, layer);
+      return;
+    }
+    if (layer.type === 'raster-tiles') {
+      this.drawCanvasRaster(renderContext, ctx, layer);
+      return;
+    }
+
+    const style = this.featureStyle.compile(layer.style, layer.data);
+
+    // Draw each feature applying its resolved style
+    ctx.save();
+
+    layer.data.features.forEach((feature, i) => {
       ctx.beginPath();
       renderContext.path(feature as any);
+      this.paintCanvasPath(ctx, style(feature, i));
+    });
 
-      // Fill if applicable
-      if (hasFill) {
-        ctx.fill();
+    ctx.restore();
+  }
+
+  /**
+   * Draw a points layer's markers onto the canvas
+   */
+  private drawCanvasMarkers(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    const markers = this.layerMarkers(renderContext, layer);
+    const style = this.markerStyle(layer);
+
+    for (const marker of markers) {
+      const resolved = style(marker);
+      const shape = isClusterFeature(marker.feature) ? undefined : layer.symbol?.shape;
+
+      ctx.save();
+      ctx.translate(marker.x, marker.y);
+
+      if (shape && typeof shape === 'object' && 'icon' in shape) {
+        const icon = this.loadIcon(shape.icon);
+        if (icon.complete && icon.naturalWidth > 0) {
+          ctx.drawImage(icon, -shape.width / 2, -shape.height / 2, shape.width, shape.height);
+        }
+      } else if (shape && typeof shape === 'object') {
+        // Custom path data is drawn in a [-1, 1] box; keep its stroke width in screen pixels
+        ctx.scale(marker.radius, marker.radius);
+        const path = new Path2D(shape.path);
+        this.paintCanvasPath(ctx, resolved, path, 1 / marker.radius);
+      } else {
+        ctx.beginPath();
+        d3.symbol(POINT_SHAPES[shape ?? 'circle'], Math.PI * marker.radius ** 2).context(ctx)();
+        this.paintCanvasPath(ctx, resolved);
       }
 
-      // Stroke if not 'none'
-      if (!(typeof style.stroke === 'string' && style.stroke.toLowerCase() === 'none')) {
-        ctx.stroke();
+      if (marker.count > 1) {
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#fff';
+        ctx.font = CLUSTER_LABEL_FONT;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(String(marker.count), 0, 0);
       }
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Draw a flows layer's arcs and particles onto the canvas
+   */
+  private drawCanvasFlows(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    const style = this.featureStyle.compile(layer.style, layer.data);
+
+    ctx.save();
+    ctx.lineCap = 'round';
+    for (const arc of this.layerArcs(renderContext, layer)) {
+      const resolved = style(arc.feature, arc.index);
+      ctx.beginPath();
+      renderContext.path(arc.geometry);
+      this.paintCanvasPath(ctx, { ...resolved, fill: 'none', strokeWidth: arc.width });
+    }
+    ctx.restore();
+
+    if (!renderContext.particleCanvas) {
+      this.drawCanvasParticles(renderContext, ctx, layer);
+    }
+  }
+
+  /**
+   * Clear the particle canvas and draw the particles of the given layers on it
+   */
+  private redrawParticleCanvas(renderContext: RenderContext, layers: MapLayer[]): void {
+    const ctx = renderContext.particleCanvas?.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    for (const layer of layers.filter((item) => item.type === 'flows')) {
+      ctx.save();
+      ctx.globalAlpha = layer.opacity ?? 1;
+      this.drawCanvasParticles(renderContext, ctx, layer);
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Draw a flows layer's particles, colored like their arcs by default
+   */
+  private drawCanvasParticles(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    const options = this.flowLayers.particleOptions(layer);
+    if (!options) return;
+
+    const style = this.featureStyle.compile(layer.style, layer.data);
+    for (const particle of this.layerParticles(renderContext, layer)) {
+      const color = options.color ?? style(particle.feature, particle.index).stroke;
+      if (color === 'none') continue;
+      ctx.beginPath();
+      ctx.arc(particle.x, particle.y, options.radius, 0, 2 * Math.PI);
+      ctx.fillStyle = color;
+      ctx.fill();
     }
+  }
 
+  /**
+   * Draw a labels layer's placed labels onto the canvas, halos first
+   */
+  private drawCanvasLabels(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    const style = this.labelLayers.labelStyle(layer);
+
+    ctx.save();
+    ctx.font = style.font;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    for (const label of this.layerLabels(renderContext, layer)) {
+      if (style.halo) {
+        ctx.strokeStyle = style.halo.color;
+        ctx.lineWidth = style.halo.width * 2;
+        ctx.strokeText(label.text, label.x, label.y);
+      }
+      ctx.fillStyle = style.color(label.feature, label.index);
+      ctx.fillText(label.text, label.x, label.y);
+    }
     ctx.restore();
   }
 
+  /**
+   * Draw a raster tiles layer's image over the canvas (previews are scaled up)
+   */
+  private drawCanvasRaster(
+    renderContext: RenderContext,
+    ctx: CanvasRenderingContext2D,
+    layer: MapLayer
+  ): void {
+    const slippyTiles = this.slippyTiles(renderContext, layer);
+    if (slippyTiles) {
+      for (const { pixels, crop, x, y, width, height } of slippyTiles) {
+        const image = this.pixelsImage(pixels);
+        if (image) ctx.drawImage(image, ...crop, x, y, width, height);
+      }
+      return;
+    }
+
+    const frame = this.rasterFrame(renderContext, layer);
+    const image = frame && this.pixelsImage(frame);
+    const viewport = this.viewport(renderContext);
+    if (!image || !viewport) return;
+
+    ctx.drawImage(image, 0, 0, viewport[0], viewport[1]);
+  }
+
+  /**
+   * Fill and stroke the current path (or the given one) with a resolved style.
+   * lineScale compensates for a scaled context.
+   */
+  private paintCanvasPath(
+    ctx: CanvasRenderingContext2D,
+    style: ResolvedStyle,
+    path?: Path2D,
+    lineScale = 1
+  ): void {
+    // Fill if applicable
+    if (style.fill.toLowerCase() !== 'none') {
+      ctx.fillStyle = style.fill;
+      ctx.globalAlpha = style.fillOpacity;
+      path ? ctx.fill(path) : ctx.fill();
+    }
+
+    // Stroke if not 'none'
+    if (style.stroke.toLowerCase() !== 'none') {
+      ctx.strokeStyle = style.stroke;
+      ctx.lineWidth = style.strokeWidth * lineScale;
+      ctx.globalAlpha = 1;
+      path ? ctx.stroke(path) : ctx.stroke();
+    }
+  }
+
+  /**
+   * Get a marker image, loading it on first use; onIconLoad announces its arrival
+   */
+  private loadIcon(url: string): HTMLImageElement {
+    let icon = this.icons.get(url);
+    if (!icon) {
+      icon = new Image();
+      icon.addEventListener('load', () => this.onIconLoad.next(), { once: true });
+      icon.src = url;
+      this.icons.set(url, icon);
+    }
+    return icon;
+  }
+
+  /**
+   * Find the topmost rendered feature at a point in the container. Given the event target, SVG
+   * mode reads the feature from the element; otherwise (and in canvas mode) the drawn layers
+   * are hit-tested through the projection.
+   */
+  hitTest(
+    renderContext: RenderContext,
+    point: [number, number],
+    target?: Element | null
+  ): FeatureHit | undefined {
+    const projection = renderContext.path.projection() as GeoProjection | null;
+    if (!projection) return undefined;
+
+    const drawn = renderContext.drawn;
+    if (renderContext.mode === 'canvas') {
+      const layers = renderContext.canvasLayers ?? [];
+      return this.hitTester.hitTest(layers, projection, point, drawn);
+    }
+    if (target === undefined) {
+      const layers = renderContext.svg?.selectAll<SVGGElement, MapLayer>('g.map-layer').data();
+      return this.hitTester.hitTest(layers ?? [], projection, point, drawn);
+    }
+
+    const element = target?.closest('.geo-feature');
+    const group = element?.closest('g.map-layer');
+    const coordinates = this.hitTester.invert(projection, point);
+    if (!element || !group || !coordinates) return undefined;
+
+    return {
+      feature: d3.select(element).datum() as Feature,
+      layer: d3.select<Element, MapLayer>(group).datum().id,
+      coordinates,
+    };
+  }
+
   /**
    * Clear the rendering context
    */
@@ -193,6 +1050,7 @@ export class MapRendererService {
     if (renderContext.mode === 'svg' && renderContext.svg) {
       renderContext.svg.selectAll('*').remove();
     } else if (renderContext.mode === 'canvas' && renderContext.context && renderContext.canvas) {
+      renderContext.canvasLayers = [];
       renderContext.context.clearRect(
         0,
         0,
@@ -208,11 +1066,13 @@ export class MapRendererService {
   clearLayer(renderContext: RenderContext, layer: string): void {
     if (renderContext.mode === 'svg' && renderContext.svg) {
       renderContext.svg.selectAll(`path.layer-${layer}`).remove();
+      renderContext.svg.selectAll(`g.map-layer-${layer}`).remove();
     } else if (renderContext.mode === 'canvas') {
-      // For canvas, we need to re-render all other layers
-      // This is a limitation of canvas - can't selectively remove
-      // For now, we'll just note this - full implementation would require layer tracking
-      console.warn('Canvas layer clearing not fully implemented - consider re-rendering');
+      // Canvas pixels can't be removed selectively, so redraw the remaining layers
+      renderContext.canvasLayers = (renderContext.canvasLayers ?? []).filter(
+        (drawn) => drawn.id !== layer
+      );
+      this.redrawCanvas(renderContext);
     }
   }
 
@@ -0,0 +1,65 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { EARTH_RADIUS_KM, MapScaleService } from './map-scale.service';
+
+describe('MapScaleService', () => {
+  let mapScale: MapScaleService;
+
+  beforeEach(() => {
+    mapScale = TestBed.inject(MapScaleService);
+  });
+
+  it('should round the scale bar and flag scales that vary across the view', () => {
+    // One pixel is a hundredth of a radian at the equator
+    const projection = d3.geoEquirectangular().scale(100).translate([300, 150]);
+    const kmPerPixel = EARTH_RADIUS_KM / 100;
+
+    const world = mapScale.scaleBar(projection, [600, 300], { units: 'both' });
+    expect(world?.lengths.map((length) => length.label)).toEqual(['5,000 km', '2,000 mi']);
+    expect(world?.lengths[0].width).toBeCloseTo(5000 / kmPerPixel, 6);
+    // Parallels are stretched more and more away from the equator
+    expect(world?.centerOnly).toBe(true);
+
+    projection.scale(1e7);
+    const city = mapScale.scaleBar(projection, [600, 300], { units: 'both' });
+    expect(city?.lengths.map((length) => length.label)).toEqual(['50 m', '200 ft']);
+    expect(city?.centerOnly).toBe(false);
+    expect(city?.variation).toBeLessThan(0.01);
+  });
+
+  it('should point the north arrow along the meridian through the center', () => {
+    const flat = d3.geoEquirectangular().translate([300, 150]);
+    expect(mapScale.northAngle(flat, [600, 300])).toBeCloseTo(0, 6);
+
+    const tilted = d3.geoOrthographic().rotate([-20, -30, 30]).translate([300, 150]);
+    expect(mapScale.northAngle(tilted, [600, 300])).toBeCloseTo(-30, 3);
+
+    // Beside the globe there is no map to measure
+    expect(mapScale.northAngle(tilted.translate([2000, 150]), [600, 300])).toBeUndefined();
+  });
+
+  it('should outline the area shown in the viewport', () => {
+    // 60° by 30° around [10, 20]
+    const projection = d3
+      .geoEquirectangular()
+      .scale(1800 / Math.PI)
+      .rotate([-10, 0])
+      .center([0, 20])
+      .translate([300, 150]);
+    const outline = mapScale.viewportOutline(projection, [600, 300]);
+    const [[west, south], [east, north]] = d3.geoBounds(outline!);
+    expect([west, east]).toEqual([expect.closeTo(-20, 1), expect.closeTo(40, 1)]);
+    expect(south).toBeCloseTo(5, 0);
+    expect(north).toBeCloseTo(35, 0);
+
+    // A whole globe in view is outlined by its visible hemisphere
+    const globe = d3.geoOrthographic().rotate([-10, -20]).fitSize([600, 300], { type: 'Sphere' });
+    const hemisphere = mapScale.viewportOutline(globe, [600, 300]);
+    expect(d3.geoArea(hemisphere!)).toBeCloseTo(2 * Math.PI, 2);
+    expect(d3.geoContains(hemisphere!, [10, 20])).toBe(true);
+
+    // A whole flat world in view leaves nothing to outline
+    const world = d3.geoEquirectangular().fitSize([600, 300], { type: 'Sphere' });
+    expect(mapScale.viewportOutline(world, [600, 300])).toBeUndefined();
+  });
+});
@@ -0,0 +1,184 @@
+import { Injectable, inject } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoProjection } from 'd3-geo';
+import { Polygon, Position } from 'geojson';
+import { ScaleBar, ScaleBarLength, ScaleBarOptions } from '../models/map.types';
+import { HitTestService } from './hit-test.service';
+
+// Mean Earth radius (IUGG)
+export const EARTH_RADIUS_KM = 6371.0088;
+
+const KM_PER_MILE = 1.609344;
+const FEET_PER_MILE = 5280;
+const DEFAULT_MAX_WIDTH = 120;
+const DEFAULT_TOLERANCE = 0.1;
+// Half the screen distance measured at each point (px)
+const SAMPLE_HALF_WIDTH = 10;
+// Viewport fractions, in both directions, where the scale is compared with the center's
+const VARIATION_SAMPLES = [0.1, 0.5, 0.9];
+// Degrees along the meridian used to find north
+const NORTH_STEP = 0.01;
+// Points inverted along each edge of the viewport for its outline
+const OUTLINE_SAMPLES = 16;
+
+/**
+ * Map Scale Service
+ * Measures the live projection for the map widgets (scale bar, north arrow, locator inset)
+ * by inverting screen points: ground distances come from d3.geoDistance between them, so the
+ * measurements hold in every projection, rotation and zoom, and during morphs
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MapScaleService {
+  private hitTester = inject(HitTestService);
+
+  /**
+   * Scale bar at the center of a viewport [width, height], or undefined when the center is
+   * off the map (e.g. beside a globe)
+   */
+  scaleBar(
+    projection: GeoProjection,
+    [width, height]: [number, number],
+    options: ScaleBarOptions = {}
+  ): ScaleBar | undefined {
+    const resolution = this.groundResolution(projection, [width / 2, height / 2]);
+    if (!resolution) return undefined;
+
+    const maxWidth = options.maxWidth ?? DEFAULT_MAX_WIDTH;
+    const units = options.units ?? 'metric';
+    const lengths: ScaleBarLength[] = [];
+    if (units !== 'imperial') {
+      lengths.push(barLength(resolution, maxWidth, ['km', 'm'], 1000));
+    }
+    if (units !== 'metric') {
+      lengths.push(barLength(resolution / KM_PER_MILE, maxWidth, ['mi', 'ft'], FEET_PER_MILE));
+    }
+
+    // Compare with the scale across the viewport; parts off the map don't count
+    let variation = 0;
+    for (const fx of VARIATION_SAMPLES) {
+      for (const fy of VARIATION_SAMPLES) {
+        const sample = this.groundResolution(projection, [fx * width, fy * height]);
+        if (sample) {
+          variation = Math.max(variation, Math.abs(sample / resolution - 1));
+        }
+      }
+    }
+
+    return {
+      lengths,
+      variation,
+      centerOnly: variation > (options.tolerance ?? DEFAULT_TOLERANCE),
+    };
+  }
+
+  /**
+   * Direction of north at the center of a viewport, in degrees clockwise from straight up, or
+   * undefined when the center is off the map
+   */
+  northAngle(projection: GeoProjection, [width, height]: [number, number]): number | undefined {
+    const center = this.hitTester.invert(projection, [width / 2, height / 2]);
+    if (!center) return undefined;
+
+    const [lon, lat] = center;
+    const south = projection([lon, Math.max(lat - NORTH_STEP, -90)]);
+    const north = projection([lon, Math.min(lat + NORTH_STEP, 90)]);
+    if (!south || !north) return undefined;
+    // Screen y grows downwards
+    return (Math.atan2(north[0] - south[0], south[1] - north[1]) * 180) / Math.PI;
+  }
+
+  /**
+   * The area shown in a viewport [width, height] as a geographic polygon, from points along
+   * its edges inverted through the projection. Edge points off the map are dropped, and a
+   * globe whose edge is in view is outlined by its visible hemisphere. Undefined when (about)
+   * the whole world is in view.
+   */
+  viewportOutline(
+    projection: GeoProjection,
+    [width, height]: [number, number]
+  ): Polygon | undefined {
+    const corners: [number, number][] = [
+      [0, 0],
+      [width, 0],
+      [width, height],
+      [0, height],
+    ];
+    const ring: Position[] = [];
+    let clipped = false;
+
+    // Clockwise on screen, which keeps the ring clockwise (the small side) on the sphere
+    corners.forEach(([x0, y0], side) => {
+      const [x1, y1] = corners[(side + 1) % corners.length];
+      for (let k = 0; k < OUTLINE_SAMPLES; k++) {
+        const t = k / OUTLINE_SAMPLES;
+        const point = this.hitTester.invert(projection, [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t]);
+        if (point) {
+          ring.push(point);
+        } else {
+          clipped = true;
+        }
+      }
+    });
+
+    const clipAngle = projection.clipAngle();
+    if (clipped && clipAngle) {
+      const center = this.hitTester.invert(projection, [width / 2, height / 2]);
+      return center && (d3.geoCircle().center(center).radius(clipAngle)() as Polygon);
+    }
+    if (ring.length < 3) return undefined;
+
+    const outline: Polygon = { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+    // More than a hemisphere: the edges run around the whole map (or the ring turned inside out)
+    return d3.geoArea(outline) > 2 * Math.PI ? undefined : outline;
+  }
+
+  /**
+   * Ground distance in km per screen pixel, measured horizontally through a screen point
+   */
+  groundResolution(projection: GeoProjection, [x, y]: [number, number]): number | undefined {
+    const west = this.hitTester.invert(projection, [x - SAMPLE_HALF_WIDTH, y]);
+    const east = this.hitTester.invert(projection, [x + SAMPLE_HALF_WIDTH, y]);
+    if (!west || !east) return undefined;
+    return (d3.geoDistance(west, east) * EARTH_RADIUS_KM) / (2 * SAMPLE_HALF_WIDTH);
+  }
+}
+
+/**
+ * The longest nice-rounded distance that fits in maxWidth, switching to the smaller unit
+ * below one of the larger
+ */
+function barLength(
+  perPixel: number,
+  maxWidth: number,
+  [unit, smallUnit]: [ScaleBarLength['unit'], ScaleBarLength['unit']],
+  smallPerUnit: number
+): ScaleBarLength {
+  const fits = perPixel * maxWidth;
+  if (fits >= 1) {
+    const distance = niceFloor(fits);
+    return { distance, unit, label: formatLength(distance, unit), width: distance / perPixel };
+  }
+
+  const distance = niceFloor(fits * smallPerUnit);
+  return {
+    distance,
+    unit: smallUnit,
+    label: formatLength(distance, smallUnit),
+    width: distance / smallPerUnit / perPixel,
+  };
+}
+
+/**
+ * The largest 1, 2 or 5 × 10ⁿ not above a value
+ */
+function niceFloor(value: number): number {
+  const power = 10 ** Math.floor(Math.log10(value));
+  const leading = value / power;
+  return (leading >= 5 ? 5 : leading >= 2 ? 2 : 1) * power;
+}
+
+function formatLength(distance: number, unit: string): string {
+  return `${d3.format(',')(distance)} ${unit}`;
+}
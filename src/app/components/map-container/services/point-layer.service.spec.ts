@@ -0,0 +1,73 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature } from 'geojson';
+import { MapLayer } from '../models/map.types';
+import { collection } from '../testing/geojson';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+import { PointLayerService, clusterRadius, isClusterFeature } from './point-layer.service';
+
+const city = (lon: number, lat: number, population: number): Feature => ({
+  type: 'Feature',
+  properties: { population },
+  geometry: { type: 'Point', coordinates: [lon, lat] },
+});
+
+describe('PointLayerService', () => {
+  let pointLayers: PointLayerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: MAP_INSTANCE_PROVIDERS });
+    pointLayers = TestBed.inject(PointLayerService);
+  });
+
+  it('should size markers proportionally by area', () => {
+    const layer: MapLayer = {
+      id: 'cities',
+      type: 'points',
+      data: collection(city(0, 0, 400), city(10, 0, 100), city(20, 0, 0)),
+      symbol: { radius: { property: 'population', maxRadius: 20, minRadius: 3 } },
+    };
+    const projection = d3.geoEquirectangular().scale(100).translate([300, 150]);
+
+    const markers = pointLayers.markers(layer, projection);
+    expect(markers.map((marker) => marker.radius)).toEqual([20, 10, 3]);
+
+    // Radii stay in screen pixels whatever the scale
+    projection.scale(1000);
+    expect(pointLayers.markers(layer, projection).map((marker) => marker.radius)).toEqual([
+      20, 10, 3,
+    ]);
+    // Points on the far side of a globe are not drawn
+    const globe = d3.geoOrthographic().rotate([-180, 0]).clipAngle(90);
+    expect(pointLayers.markers(layer, globe)).toEqual([]);
+  });
+
+  it('should regroup clusters as the scale changes', () => {
+    const layer: MapLayer = {
+      id: 'cities',
+      type: 'points',
+      data: collection(city(0, 0, 1), city(1, 0, 1), city(2, 0, 1), city(60, 0, 1)),
+      cluster: { distance: 40 },
+    };
+    const projection = d3.geoEquirectangular().scale(100).translate([300, 150]);
+
+    const [cluster, single] = pointLayers.markers(layer, projection);
+    expect(isClusterFeature(cluster.feature)).toBe(true);
+    expect(cluster.feature.properties?.['pointCount']).toBe(3);
+    expect(cluster.radius).toBe(clusterRadius(3));
+    expect(cluster.feature.geometry).toEqual({
+      type: 'Point',
+      coordinates: [expect.any(Number), expect.any(Number)],
+    });
+    expect(single.feature).toBe(layer.data.features[3]);
+
+    // The same cluster keeps its feature from frame to frame
+    projection.translate([320, 150]);
+    expect(pointLayers.markers(layer, projection)[0].feature).toBe(cluster.feature);
+
+    // Zoomed in, every city is its own marker again
+    projection.scale(10000);
+    const markers = pointLayers.markers(layer, projection);
+    expect(markers.map((marker) => marker.count)).toEqual([1, 1, 1, 1]);
+  });
+});
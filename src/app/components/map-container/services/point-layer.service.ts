@@ -0,0 +1,237 @@
+import { Injectable, inject } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoProjection } from 'd3-geo';
+import { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import {
+  FeatureStyleFunction,
+  LayerStyle,
+  MapLayer,
+  PointClusterOptions,
+  PointMarker,
+  PointShape,
+  PointSymbol,
+} from '../models/map.types';
+import { HitTestService } from './hit-test.service';
+
+export const DEFAULT_CLUSTER_STYLE: LayerStyle = {
+  fill: '#3182bd',
+  stroke: '#fff',
+  strokeWidth: 1.5,
+  fillOpacity: 0.85,
+};
+
+export const POINT_SHAPES: Record<PointShape, d3.SymbolType> = {
+  circle: d3.symbolCircle,
+  square: d3.symbolSquare,
+  triangle: d3.symbolTriangle,
+  diamond: d3.symbolDiamond,
+  star: d3.symbolStar,
+  cross: d3.symbolCross,
+  wye: d3.symbolWye,
+};
+
+const DEFAULT_POINT_RADIUS = 4;
+const DEFAULT_MIN_RADIUS = 2;
+const DEFAULT_CLUSTER_DISTANCE = 40;
+
+/**
+ * Check whether a feature is a cluster made by a clustered points layer
+ */
+export function isClusterFeature(feature: Feature): boolean {
+  return feature.properties?.['cluster'] === true;
+}
+
+/**
+ * Radius of a cluster circle in px; grows with the square root of the point count
+ */
+export function clusterRadius(count: number): number {
+  return Math.min(10 + 2 * Math.sqrt(count), 30);
+}
+
+/**
+ * Point Layer Service
+ * Places the markers of 'points' layers on screen: projects each point with the current
+ * projection (dropping clipped ones), sizes it, and clusters markers that overlap
+ */
+@Injectable()
+export class PointLayerService {
+  private hitTester = inject(HitTestService);
+
+  // Proportional radius scales depend on the data, so compile once per symbol and data
+  private radiusCache = new WeakMap<PointSymbol, WeakMap<FeatureCollection, RadiusFunction>>();
+  // Cluster features from the last render per layer, reused while a cluster keeps its members
+  // so hover and selection see the same feature from frame to frame
+  private clusters = new Map<string, Map<string, Feature>>();
+
+  /**
+   * Markers of a points layer in the current projection, in draw order
+   */
+  markers(layer: MapLayer, projection: GeoProjection): PointMarker[] {
+    const radius = this.radius(layer);
+    const markers: PointMarker[] = [];
+
+    layer.data.features.forEach((feature, index) => {
+      for (const position of pointPositions(feature.geometry)) {
+        const projected = this.hitTester.projectVisible(projection, position);
+        if (projected) {
+          const [x, y] = projected;
+          markers.push({ feature, index, x, y, radius: radius(feature, index), count: 1 });
+        }
+      }
+    });
+
+    if (!layer.cluster) {
+      this.clusters.delete(layer.id);
+      return markers;
+    }
+    const options: PointClusterOptions = layer.cluster === true ? {} : layer.cluster;
+    return this.cluster(layer.id, markers, projection, options.distance);
+  }
+
+  /**
+   * Per-feature marker radius in px for a layer (cluster features get the cluster radius)
+   */
+  radius(layer: MapLayer): RadiusFunction {
+    const symbol = layer.symbol;
+    if (!symbol) {
+      return (feature) => markerRadius(feature, DEFAULT_POINT_RADIUS);
+    }
+
+    let compiled = this.radiusCache.get(symbol)?.get(layer.data);
+    if (!compiled) {
+      compiled = this.compileRadius(symbol, layer.data);
+      const byData = this.radiusCache.get(symbol) ?? new WeakMap();
+      byData.set(layer.data, compiled);
+      this.radiusCache.set(symbol, byData);
+    }
+    return compiled;
+  }
+
+  private compileRadius(symbol: PointSymbol, data: FeatureCollection): RadiusFunction {
+    const radius = symbol.radius ?? DEFAULT_POINT_RADIUS;
+
+    if (typeof radius === 'number') {
+      return (feature) => markerRadius(feature, radius, symbol);
+    }
+    if (typeof radius === 'function') {
+      return (feature, index) => markerRadius(feature, radius(feature, index), symbol);
+    }
+
+    const value = (feature: Feature) => Number(feature.properties?.[radius.property]);
+    const maxValue = radius.maxValue ?? d3.max(data.features, value) ?? 0;
+    const scale = d3.scaleSqrt().domain([0, maxValue]).range([0, radius.maxRadius]).clamp(true);
+    const minRadius = radius.minRadius ?? DEFAULT_MIN_RADIUS;
+
+    return (feature) => {
+      const size = Number.isFinite(value(feature)) ? scale(Math.max(value(feature), 0)) : 0;
+      return markerRadius(feature, Math.max(size, minRadius), symbol);
+    };
+  }
+
+  /**
+   * Greedy screen-space clustering in data order: each marker joins the first cluster seeded
+   * within `distance` px, otherwise it seeds a new one. Panning does not change distances, so
+   * clusters only regroup when the scale or projection changes.
+   */
+  private cluster(
+    layerId: string,
+    markers: PointMarker[],
+    projection: GeoProjection,
+    distance = DEFAULT_CLUSTER_DISTANCE
+  ): PointMarker[] {
+    const groups: { x: number; y: number; members: PointMarker[] }[] = [];
+    const grid = new Map<string, typeof groups>();
+
+    for (const marker of markers) {
+      const column = Math.floor(marker.x / distance);
+      const row = Math.floor(marker.y / distance);
+      let group: (typeof groups)[number] | undefined;
+
+      // Seeds within `distance` can only be in this or a neighboring grid cell
+      for (let dx = -1; dx <= 1 && !group; dx++) {
+        for (let dy = -1; dy <= 1 && !group; dy++) {
+          group = grid
+            .get(`${column + dx},${row + dy}`)
+            ?.find((seed) => Math.hypot(seed.x - marker.x, seed.y - marker.y) < distance);
+        }
+      }
+
+      if (group) {
+        group.members.push(marker);
+      } else {
+        group = { x: marker.x, y: marker.y, members: [marker] };
+        groups.push(group);
+        const cell = `${column},${row}`;
+        grid.set(cell, [...(grid.get(cell) ?? []), group]);
+      }
+    }
+
+    const previous = this.clusters.get(layerId) ?? new Map<string, Feature>();
+    const current = new Map<string, Feature>();
+
+    const result = groups.map(({ members }) => {
+      if (members.length === 1) return members[0];
+
+      const x = d3.mean(members, (member) => member.x) as number;
+      const y = d3.mean(members, (member) => member.y) as number;
+      const key = members.map((member) => member.index).join(',');
+      const feature = previous.get(key) ?? clusterFeature(members);
+      // Place the cluster where it is drawn, so tooltips anchored to it line up
+      const coordinates =
+        projection.invert?.([x, y]) ??
+        d3.geoCentroid({ type: 'FeatureCollection', features: members.map((m) => m.feature) });
+      feature.geometry = { type: 'Point', coordinates };
+      current.set(key, feature);
+
+      const count = members.length;
+      return { feature, index: -1, x, y, radius: clusterRadius(count), count };
+    });
+
+    this.clusters.set(layerId, current);
+    return result;
+  }
+}
+
+type RadiusFunction = FeatureStyleFunction<number>;
+
+/**
+ * Final marker radius: cluster features are sized by count, icons by their image size
+ */
+function markerRadius(feature: Feature, radius: number, symbol?: PointSymbol): number {
+  if (isClusterFeature(feature)) {
+    return clusterRadius(feature.properties?.['pointCount'] ?? 1);
+  }
+  const shape = symbol?.shape;
+  if (shape && typeof shape === 'object' && 'icon' in shape) {
+    return Math.max(shape.width, shape.height) / 2;
+  }
+  return radius;
+}
+
+function clusterFeature(members: PointMarker[]): Feature {
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [0, 0] },
+    properties: {
+      cluster: true,
+      pointCount: members.length,
+      features: members.map((member) => member.feature),
+    },
+  };
+}
+
+/**
+ * Positions of the points in a geometry (other geometry types have none)
+ */
+function pointPositions(geometry: Geometry | null): Position[] {
+  switch (geometry?.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+      return geometry.coordinates;
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(pointPositions);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { ProjectionRegistryService } from './projection-registry.service';
+
+describe('ProjectionRegistryService', () => {
+  let registry: ProjectionRegistryService;
+
+  beforeEach(() => {
+    registry = TestBed.inject(ProjectionRegistryService);
+  });
+
+  it('should create named projections fitted to the viewport', () => {
+    const { projection, centerStrategy } = registry.create('equirectangular', 960, 600);
+    expect(centerStrategy).toBe('rotate');
+    expect(projection([0, 0])).toEqual([480, 300]);
+    expect(projection([180, 0])![0]).toBeCloseTo(960, 6);
+
+    // Conics keep their default scale (sized for 960px) and pan in longitude only
+    const albers = registry.create('albers', 480, 300);
+    expect(albers.centerStrategy).toBe('rotate-lambda');
+    expect(albers.projection.scale()).toBeCloseTo(d3.geoAlbers().scale() / 2, 6);
+
+    expect(() => registry.create('nope', 960, 600)).toThrowError(/Unknown projection "nope"/);
+  });
+
+  it('should apply options and registered definitions', () => {
+    registry.register('globe', { factory: () => d3.geoOrthographic(), fit: false });
+    expect(registry.has('globe')).toBe(true);
+
+    const { projection } = registry.create('globe', 400, 400, { center: [-30, 30], fit: true });
+    const [x, y] = projection([-30, 30])!;
+    expect(x).toBeCloseTo(200, 6);
+    expect(y).toBeCloseTo(200, 6);
+
+    // Instances are used as configured
+    const custom = d3.geoMercator().scale(100);
+    expect(registry.create(custom, 960, 600).projection.scale()).toBe(100);
+  });
+
+  it('should morph between projections by blending projected points', () => {
+    const from = registry.create('equirectangular', 960, 600).projection;
+    const to = registry.create('mollweide', 960, 600).projection;
+    const morph = registry.interpolate(from, to);
+    const point: [number, number] = [30, 20];
+    const [a, b] = [from(point)!, to(point)!];
+
+    const start = morph.alpha(0)(point)!;
+    expect(start[0]).toBeCloseTo(a[0], 6);
+    expect(start[1]).toBeCloseTo(a[1], 6);
+    const middle = morph.alpha(0.5)(point)!;
+    expect(middle[0]).toBeCloseTo((a[0] + b[0]) / 2, 6);
+    expect(middle[1]).toBeCloseTo((a[1] + b[1]) / 2, 6);
+    const end = morph.alpha(1)(point)!;
+    expect(end[0]).toBeCloseTo(b[0], 6);
+    expect(end[1]).toBeCloseTo(b[1], 6);
+  });
+
+  it('should invert a morph mid-way', () => {
+    const from = registry.create('equirectangular', 960, 600).projection;
+    const to = registry.create('orthographic', 960, 600, { center: [40, 20] }).projection;
+    const morph = registry.interpolate(from, to).alpha(0.5);
+
+    for (const point of [[0, 0], [30, 20], [60, -30], [-20, 45]] as [number, number][]) {
+      const [lon, lat] = morph.invert!(morph(point)!)!;
+      expect(lon).toBeCloseTo(point[0], 4);
+      expect(lat).toBeCloseTo(point[1], 4);
+    }
+  });
+});
@@ -0,0 +1,267 @@
+import { Injectable } from '@angular/core';
+import * as d3 from 'd3';
+import { GeoConicProjection, GeoProjection } from 'd3-geo';
+import { geoEckert4, geoMollweide, geoRobinson, geoWinkel3 } from 'd3-geo-projection';
+import { CenterStrategy, ProjectionInput, ProjectionOptions } from '../models/map.types';
+
+export interface ProjectionDefinition {
+  /** Create a fresh projection with the registry defaults */
+  factory: () => GeoProjection;
+  /** How GeoZoomService applies a center (defaults to 'rotate') */
+  centerStrategy?: CenterStrategy;
+  /** Fit the sphere into the viewport by default (defaults to true) */
+  fit?: boolean;
+}
+
+export interface ResolvedProjection {
+  projection: GeoProjection;
+  centerStrategy: CenterStrategy;
+}
+
+/**
+ * A projection blending two configured projections; alpha 0 matches `from`, 1 matches `to`.
+ * It inverts numerically, so hit-testing and scale widgets keep working mid-morph.
+ */
+export interface MorphProjection extends GeoProjection {
+  alpha(alpha: number): MorphProjection;
+}
+
+// Above this clip angle a morph clips along the antimeridian instead of a small circle,
+// so features crossing the source projection's seam are still split
+const MORPH_CLIP_THRESHOLD = 170;
+// Newton steps, pixel tolerance and finite-difference step (degrees) of a morph's inverse
+const MORPH_INVERT_STEPS = 20;
+const MORPH_INVERT_TOLERANCE = 1e-4;
+const MORPH_INVERT_DELTA = 1e-6;
+
+/**
+ * Projection Registry Service
+ * Maps projection names to factories so the map can switch projection by name
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ProjectionRegistryService {
+  private definitions = new Map<string, ProjectionDefinition>([
+    ['equirectangular', { factory: () => d3.geoEquirectangular() }],
+    ['mercator', { factory: () => d3.geoMercator() }],
+    ['orthographic', { factory: () => d3.geoOrthographic() }],
+    ['stereographic', { factory: () => d3.geoStereographic() }],
+    ['azimuthalEqualArea', { factory: () => d3.geoAzimuthalEqualArea() }],
+    ['naturalEarth', { factory: () => d3.geoNaturalEarth1() }],
+    ['albers', { factory: () => d3.geoAlbers(), centerStrategy: 'rotate-lambda', fit: false }],
+    [
+      'conicEqualArea',
+      { factory: () => d3.geoConicEqualArea(), centerStrategy: 'rotate-lambda', fit: false },
+    ],
+    [
+      'conicConformal',
+      { factory: () => d3.geoConicConformal(), centerStrategy: 'rotate-lambda', fit: false },
+    ],
+    ['robinson', { factory: () => geoRobinson() }],
+    ['mollweide', { factory: () => geoMollweide() }],
+    ['winkelTripel', { factory: () => geoWinkel3() }],
+    ['eckert4', { factory: () => geoEckert4() }],
+  ]);
+
+  /**
+   * Register (or replace) a named projection
+   */
+  register(name: string, definition: ProjectionDefinition): void {
+    this.definitions.set(name, definition);
+  }
+
+  /**
+   * Check whether a projection name is registered
+   */
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  /**
+   * List registered projection names
+   */
+  names(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Create a projection sized for the viewport.
+   * Named projections are fitted to the viewport unless their definition opts out;
+   * projection instances are used as configured unless `options.fit` is true.
+   */
+  create(
+    input: ProjectionInput,
+    width: number,
+    height: number,
+    options: ProjectionOptions = {}
+  ): ResolvedProjection {
+    let projection: GeoProjection;
+    let definition: ProjectionDefinition | undefined;
+
+    if (typeof input === 'string') {
+      definition = this.definitions.get(input);
+      if (!definition) {
+        throw new Error(
+          `Unknown projection "${input}". Registered projections: ${this.names().join(', ')}`
+        );
+      }
+      projection = definition.factory();
+    } else {
+      projection = input;
+    }
+
+    const centerStrategy = definition?.centerStrategy ?? this.inferCenterStrategy(projection);
+
+    if (options.parallels) {
+      const conic = projection as GeoConicProjection;
+      if (typeof conic.parallels === 'function') {
+        conic.parallels(options.parallels);
+      }
+    }
+    if (options.clipAngle !== undefined) {
+      projection.clipAngle(options.clipAngle);
+    }
+    if (options.precision !== undefined) {
+      projection.precision(options.precision);
+    }
+    if (options.rotate) {
+      projection.rotate(options.rotate);
+    }
+    if (options.center) {
+      this.applyCenter(projection, options.center, centerStrategy);
+    }
+
+    const fit = options.fit ?? (definition ? definition.fit ?? true : false);
+    if (fit) {
+      projection.fitSize([width, height], { type: 'Sphere' });
+    } else if (definition) {
+      // Registry defaults are tuned for a 960px wide viewport
+      projection.scale((projection.scale() * width) / 960).translate([width / 2, height / 2]);
+    }
+
+    return { projection, centerStrategy };
+  }
+
+  /**
+   * Build a projection that morphs between two fully configured projections
+   * (scale, translate and rotation included) by interpolating their projected
+   * pixel coordinates. Rotation and clip angle are interpolated alongside so the
+   * source seam and the target horizon are honored at either end.
+   */
+  interpolate(from: GeoProjection, to: GeoProjection): MorphProjection {
+    const fromRotation = from.rotate();
+    const toRotation = to.rotate();
+    const fromClip = from.clipAngle() ?? 180;
+    const toClip = to.clipAngle() ?? 180;
+    const degrees = 180 / Math.PI;
+
+    let alpha = 0;
+    let frame = d3.geoRotation(fromRotation);
+
+    // Blended pixels of a geographic point
+    const blend = (point: [number, number]): [number, number] => {
+      const a = from(point) ?? [NaN, NaN];
+      const b = to(point) ?? [NaN, NaN];
+      return [a[0] + (b[0] - a[0]) * alpha, a[1] + (b[1] - a[1]) * alpha];
+    };
+
+    // Raw projection in the morph's rotated frame; outputs pixels (y flipped for d3)
+    const raw: d3.GeoRawProjection = (lambda: number, phi: number): [number, number] => {
+      const [x, y] = blend(frame.invert([lambda * degrees, phi * degrees]));
+      return [x, -y];
+    };
+
+    // Newton's method on the blend from a starting point; undefined unless it converges
+    const solve = (target: [number, number], start: [number, number]) => {
+      let point = start;
+      for (let i = 0; i < MORPH_INVERT_STEPS; i++) {
+        const [px, py] = blend(point);
+        const [dx, dy] = [px - target[0], py - target[1]];
+        if (!Number.isFinite(dx + dy)) return undefined;
+        if (Math.hypot(dx, dy) < MORPH_INVERT_TOLERANCE) return point;
+
+        // Jacobian in pixels per degree
+        const [lx, ly] = blend([point[0] + MORPH_INVERT_DELTA, point[1]]);
+        const [fx, fy] = blend([point[0], point[1] + MORPH_INVERT_DELTA]);
+        const [a, b] = [(lx - px) / MORPH_INVERT_DELTA, (fx - px) / MORPH_INVERT_DELTA];
+        const [c, d] = [(ly - py) / MORPH_INVERT_DELTA, (fy - py) / MORPH_INVERT_DELTA];
+        const determinant = a * d - b * c;
+        if (!determinant) return undefined;
+
+        point = [
+          point[0] - (d * dx - b * dy) / determinant,
+          Math.max(-90, Math.min(90, point[1] - (a * dy - c * dx) / determinant)),
+        ];
+      }
+      return undefined;
+    };
+
+    // Solved from both projections' inverses. Past a globe's horizon the blend folds over
+    // itself; the solution nearest the center of the view is the one in front
+    raw.invert = (x: number, y: number): [number, number] => {
+      const target: [number, number] = [x, -y];
+      const solutions = [from.invert?.(target), to.invert?.(target)]
+        .map((start) => start && solve(target, start))
+        .filter((point): point is [number, number] => point !== undefined)
+        .map((point) => frame(point));
+
+      const nearest = d3.least(solutions, (point) => d3.geoDistance(point, [0, 0]));
+      return nearest ? [nearest[0] / degrees, nearest[1] / degrees] : [NaN, NaN];
+    };
+
+    const morph = d3
+      .geoProjection(raw)
+      .scale(1)
+      .translate([0, 0])
+      .precision(to.precision()) as MorphProjection;
+
+    morph.alpha = (value: number) => {
+      alpha = value;
+
+      // Shortest way around for each rotation angle
+      const rotation = fromRotation.map((start, i) => {
+        const delta = ((((toRotation[i] ?? 0) - start) % 360) + 540) % 360 - 180;
+        return start + delta * value;
+      }) as [number, number, number];
+      frame = d3.geoRotation(rotation);
+
+      const clip = fromClip + (toClip - fromClip) * value;
+      // d3 recenters on raw(0, 0); translate by it so raw pixels pass through unchanged.
+      // Setting rotate/clipAngle/translate also invalidates the projection's stream cache
+      const origin = raw(0, 0);
+      morph
+        .clipAngle(clip > MORPH_CLIP_THRESHOLD ? null : clip)
+        .rotate(rotation)
+        .translate([origin[0], -origin[1]]);
+      return morph;
+    };
+
+    return morph.alpha(0);
+  }
+
+  /**
+   * Guess the center strategy of an arbitrary projection instance
+   */
+  inferCenterStrategy(projection: GeoProjection): CenterStrategy {
+    return typeof (projection as GeoConicProjection).parallels === 'function'
+      ? 'rotate-lambda'
+      : 'rotate';
+  }
+
+  /**
+   * Point a projection at a geographic center using the given strategy
+   */
+  private applyCenter(
+    projection: GeoProjection,
+    center: [number, number],
+    strategy: CenterStrategy
+  ): void {
+    const gamma = projection.rotate()[2] ?? 0;
+    if (strategy === 'rotate-lambda') {
+      projection.rotate([-center[0], 0, gamma]).center([0, center[1]]);
+    } else {
+      projection.rotate([-center[0], -center[1], gamma]);
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import { RasterPixels } from '../models/map.types';
+import { MAX_LATITUDE, TileCoordinates, mercatorY } from './tile-math';
+
+// Longitude or latitude spanned by a mesh cell before it is split for accuracy (degrees)
+const MAX_CELL_SPAN = 10;
+// Numbers per cell: x, y, size, then lon/lat of the top-left, top-right, bottom-left and
+// bottom-right corners
+const CELL_LENGTH = 11;
+
+/**
+ * Geographic coordinates of an output image, as a mesh of square cells. Pixels inside a cell
+ * interpolate its corners' coordinates. Cells are whole grid cells where the map is smooth,
+ * and split down to single pixels along the edge of the map (e.g. the rim of a globe).
+ */
+export interface RasterMesh {
+  width: number; // output px
+  height: number;
+  cells: Float64Array; // CELL_LENGTH numbers per cell
+}
+
+/**
+ * Messages to the raster tile worker (raster-tile.worker.ts). It keeps a copy of each source's
+ * loaded tiles, so render requests only carry the mesh of the view.
+ */
+export type RasterWorkerRequest =
+  | { type: 'tile'; source: number; tile: TileCoordinates; pixels: RasterPixels }
+  | { type: 'drop'; source: number; tile: TileCoordinates }
+  | {
+      type: 'render';
+      id: number;
+      source: number;
+      mesh: RasterMesh;
+      zoom: number;
+      minZoom: number;
+    };
+
+export interface RasterWorkerResponse {
+  id: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Mesh of an output image: the coordinates of output pixel [x, y] are invert([x, y]), or
+ * undefined off the map. Grid vertices are step px apart (a power of 2).
+ */
+export function buildMesh(
+  invert: (point: [number, number]) => [number, number] | undefined,
+  width: number,
+  height: number,
+  step: number
+): RasterMesh {
+  const columns = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const vertices: ([number, number] | undefined)[] = [];
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i <= columns; i++) vertices.push(invert([i * step, j * step]));
+  }
+
+  const cells: number[] = [];
+  const vertex = (i: number, j: number) => vertices[j * (columns + 1) + i];
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      const corners = [vertex(i, j), vertex(i + 1, j), vertex(i, j + 1), vertex(i + 1, j + 1)];
+      addCell(cells, invert, i * step, j * step, step, corners);
+    }
+  }
+  return { width, height, cells: new Float64Array(cells) };
+}
+
+function addCell(
+  cells: number[],
+  invert: (point: [number, number]) => [number, number] | undefined,
+  x: number,
+  y: number,
+  size: number,
+  corners: ([number, number] | undefined)[]
+): void {
+  if (size === 1) {
+    // A single pixel takes its own coordinates
+    const [corner] = corners;
+    if (corner) cells.push(x, y, 1, ...corner, ...corner, ...corner, ...corner);
+    return;
+  }
+
+  if (corners.every((corner) => corner !== undefined)) {
+    // Unwrapped across the antimeridian, so longitudes interpolate the short way round
+    const [lon0] = corners[0]!;
+    const unwrapped = (corners as [number, number][]).map(([lon, lat]) => [
+      lon + 360 * Math.round((lon0 - lon) / 360),
+      lat,
+    ]);
+    const lons = unwrapped.map(([lon]) => lon);
+    const lats = unwrapped.map(([, lat]) => lat);
+    const smooth =
+      Math.max(...lons) - Math.min(...lons) <= MAX_CELL_SPAN &&
+      Math.max(...lats) - Math.min(...lats) <= MAX_CELL_SPAN;
+    if (smooth) {
+      cells.push(x, y, size, ...unwrapped.flat());
+      return;
+    }
+  } else if (corners.every((corner) => corner === undefined)) {
+    // Off the map (a map smaller than a cell is missed)
+    return;
+  }
+
+  // Split into quarters
+  const half = size / 2;
+  const [topLeft, topRight, bottomLeft, bottomRight] = corners;
+  const top = invert([x + half, y]);
+  const left = invert([x, y + half]);
+  const center = invert([x + half, y + half]);
+  const right = invert([x + size, y + half]);
+  const bottom = invert([x + half, y + size]);
+  addCell(cells, invert, x, y, half, [topLeft, top, left, center]);
+  addCell(cells, invert, x + half, y, half, [top, topRight, center, right]);
+  addCell(cells, invert, x, y + half, half, [left, center, bottomLeft, bottom]);
+  addCell(cells, invert, x + half, y + half, half, [center, right, bottom, bottomRight]);
+}
+
+/**
+ * Reprojects Web Mercator tiles onto a mesh, nearest-neighbour. Holds the tiles' pixels; a
+ * pixel without a tile at the requested zoom falls back to a loaded tile one zoom in, then to
+ * the nearest loaded ancestor, and stays transparent without one.
+ */
+export class RasterReprojector {
+  private tiles = new Map<number, RasterPixels>();
+
+  setTile([z, x, y]: TileCoordinates, pixels: RasterPixels): void {
+    this.tiles.set(tileIndex(z, x, y), pixels);
+  }
+
+  deleteTile([z, x, y]: TileCoordinates): void {
+    this.tiles.delete(tileIndex(z, x, y));
+  }
+
+  /**
+   * RGBA pixels of the mesh's output image, drawn from tiles of the given zoom
+   */
+  render({ width, height, cells }: RasterMesh, zoom: number, minZoom = 0): Uint8ClampedArray {
+    const output = new Uint8ClampedArray(width * height * 4);
+    const zooms = [zoom, zoom + 1];
+    for (let z = zoom - 1; z >= minZoom; z--) zooms.push(z);
+    const sampler = new TileSampler(this.tiles, zooms);
+
+    for (let c = 0; c < cells.length; c += CELL_LENGTH) {
+      const [x, y, size] = [cells[c], cells[c + 1], cells[c + 2]];
+      const [lon0, lat0, lon1, lat1, lon2, lat2, lon3, lat3] = cells.subarray(
+        c + 3,
+        c + CELL_LENGTH
+      );
+      for (let py = y; py < Math.min(y + size, height); py++) {
+        const v = (py - y) / size;
+        // Coordinates down the cell's left and right edges, then across
+        const lonLeft = lon0 + (lon2 - lon0) * v;
+        const latLeft = lat0 + (lat2 - lat0) * v;
+        const lonRight = lon1 + (lon3 - lon1) * v;
+        const latRight = lat1 + (lat3 - lat1) * v;
+        for (let px = x; px < Math.min(x + size, width); px++) {
+          const u = (px - x) / size;
+          const lon = lonLeft + (lonRight - lonLeft) * u;
+          const lat = latLeft + (latRight - latLeft) * u;
+          sampler.sample(lon, lat, output, (py * width + px) * 4);
+        }
+      }
+    }
+    return output;
+  }
+}
+
+/**
+ * Looks up tile pixels by location, remembering the last tile since neighbouring pixels
+ * mostly fall in the same one
+ */
+class TileSampler {
+  private lastIndex = -1;
+  private lastPixels?: RasterPixels;
+
+  constructor(
+    private tiles: Map<number, RasterPixels>,
+    private zooms: number[]
+  ) {}
+
+  sample(lon: number, lat: number, output: Uint8ClampedArray, offset: number): void {
+    if (Math.abs(lat) > MAX_LATITUDE) return;
+
+    // Web Mercator position in [0, 1)
+    const mx = ((((lon + 180) / 360) % 1) + 1) % 1;
+    const my = mercatorY(lat);
+
+    for (const z of this.zooms) {
+      const n = 2 ** z;
+      const tx = Math.min(Math.floor(mx * n), n - 1);
+      const ty = Math.min(Math.max(Math.floor(my * n), 0), n - 1);
+      const index = tileIndex(z, tx, ty);
+      if (index !== this.lastIndex) {
+        this.lastIndex = index;
+        this.lastPixels = this.tiles.get(index);
+      }
+      const pixels = this.lastPixels;
+      if (!pixels) continue;
+
+      const sx = Math.min(Math.floor((mx * n - tx) * pixels.width), pixels.width - 1);
+      const sy = Math.min(
+        Math.max(Math.floor((my * n - ty) * pixels.height), 0),
+        pixels.height - 1
+      );
+      const source = (sy * pixels.width + sx) * 4;
+      output[offset] = pixels.data[source];
+      output[offset + 1] = pixels.data[source + 1];
+      output[offset + 2] = pixels.data[source + 2];
+      output[offset + 3] = pixels.data[source + 3];
+      return;
+    }
+  }
+}
+
+/**
+ * Unique number of a tile: tiles of lower zooms first, then row by row
+ */
+function tileIndex(z: number, x: number, y: number): number {
+  return (4 ** z - 1) / 3 + y * 2 ** z + x;
+}
@@ -0,0 +1,38 @@
+import { RasterPixels, RasterTileSource } from '../models/map.types';
+
+/**
+ * Image tiles fetched from an XYZ URL template, e.g. a local tile server or a directory of
+ * .png/.jpg/.webp files ('/relief/{z}/{x}/{y}.png'). 404 and 204 mean the tile doesn't exist.
+ */
+export class XyzRasterSource implements RasterTileSource {
+  constructor(private url: string) {}
+
+  async tile(z: number, x: number, y: number): Promise<RasterPixels | undefined> {
+    const url = this.url
+      .replace('{z}', String(z))
+      .replace('{x}', String(x))
+      .replace('{y}', String(y));
+    const response = await fetch(url);
+    if (response.status === 404 || response.status === 204) return undefined;
+    if (!response.ok) {
+      throw new Error(`Could not load tile "${url}": ${response.status} ${response.statusText}`);
+    }
+
+    const image = await createImageBitmap(await response.blob());
+    const { width, height } = image;
+    const context = new OffscreenCanvas(width, height).getContext('2d');
+    if (!context) {
+      throw new Error('Could not get 2D context from canvas');
+    }
+    context.drawImage(image, 0, 0);
+    image.close();
+    return context.getImageData(0, 0, width, height);
+  }
+}
+
+/**
+ * The RasterTileSource for a layer's source option
+ */
+export function createRasterSource(source: string | RasterTileSource): RasterTileSource {
+  return typeof source === 'string' ? new XyzRasterSource(source) : source;
+}
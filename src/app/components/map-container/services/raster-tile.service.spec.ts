@@ -0,0 +1,177 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { MapLayer, RasterPixels, RasterTileSource, TileError } from '../models/map.types';
+import { AnimationScheduler, VirtualAnimationScheduler } from './animation-scheduler.service';
+import { HitTestService } from './hit-test.service';
+import { RasterReprojector, buildMesh } from './raster-reprojection';
+import { RasterTileService } from './raster-tile.service';
+
+/**
+ * The world tile, colored by quadrant: red in the west, blue in the east, green in the north
+ */
+function worldTile(): RasterPixels {
+  const data = new Uint8ClampedArray(256 * 256 * 4);
+  for (let y = 0; y < 256; y++) {
+    for (let x = 0; x < 256; x++) {
+      data.set([x < 128 ? 255 : 0, y < 128 ? 255 : 0, x < 128 ? 0 : 255, 255], (y * 256 + x) * 4);
+    }
+  }
+  return { width: 256, height: 256, data };
+}
+
+const pixel = (image: RasterPixels, x: number, y: number) =>
+  [...image.data.subarray((y * image.width + x) * 4, (y * image.width + x + 1) * 4)];
+
+describe('RasterTileService', () => {
+  let scheduler: VirtualAnimationScheduler;
+  let rasterTiles: RasterTileService;
+  let hitTester: HitTestService;
+
+  beforeEach(() => {
+    scheduler = new VirtualAnimationScheduler();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AnimationScheduler, useValue: scheduler }],
+    });
+    rasterTiles = TestBed.inject(RasterTileService);
+    hitTester = TestBed.inject(HitTestService);
+  });
+
+  it('should reproject tiles onto a globe, leaving off-map pixels transparent', () => {
+    const globe = d3.geoOrthographic().rotate([-45, -30]).fitSize([200, 200], { type: 'Sphere' });
+    const reprojector = new RasterReprojector();
+    reprojector.setTile([0, 0, 0], worldTile());
+
+    const mesh = buildMesh(([x, y]) => hitTester.invert(globe, [x + 0.5, y + 0.5]), 200, 200, 16);
+    const image = { width: 200, height: 200, data: reprojector.render(mesh, 0) };
+
+    // Centered on 45°E 30°N, in the northeast quadrant
+    expect(pixel(image, 100, 100)).toEqual([0, 255, 255, 255]);
+    expect(pixel(image, 2, 2)[3]).toBe(0);
+    // Cells along the rim are split down to pixels, so the disc is filled to its edge
+    let opaque = 0;
+    for (let i = 3; i < image.data.length; i += 4) if (image.data[i]) opaque++;
+    expect(opaque / (Math.PI * 100 * 100)).toBeCloseTo(1, 1);
+  });
+
+  it('should draw a preview at once and the full frame once reprojected', async () => {
+    const requested: string[] = [];
+    const source: RasterTileSource = {
+      tile: async (z, x, y) => {
+        requested.push(`${z}/${x}/${y}`);
+        return worldTile();
+      },
+      maxZoom: 0,
+    };
+    const layer: MapLayer = {
+      id: 'relief',
+      type: 'raster-tiles',
+      data: { type: 'FeatureCollection', features: [] },
+      raster: { source },
+    };
+    const world = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+    let updates = 0;
+    rasterTiles.onUpdate.subscribe(() => updates++);
+
+    // Nothing loaded yet: a blank preview
+    const blank = rasterTiles.frame(layer, world, [960, 600])!;
+    expect([blank.preview, blank.width, blank.height]).toEqual([true, 240, 150]);
+    expect(blank.data.every((value) => value === 0)).toBe(true);
+    expect(requested).toEqual(['0/0/0']);
+
+    await new Promise((resolve) => setTimeout(resolve));
+    scheduler.advance(20);
+    expect(updates).toBeGreaterThan(0);
+    const preview = rasterTiles.frame(layer, world, [960, 600])!;
+    expect(preview.preview).toBe(true);
+    expect(pixel(preview, 60, 38)).toEqual([255, 255, 0, 255]);
+
+    scheduler.advance(20);
+    const frame = rasterTiles.frame(layer, world, [960, 600])!;
+    expect([frame.preview, frame.width, frame.height]).toEqual([false, 960, 600]);
+    // 90°W 56°N, 90°E 56°S and beyond the poles
+    expect(pixel(frame, 240, 150)).toEqual([255, 255, 0, 255]);
+    expect(pixel(frame, 720, 450)).toEqual([0, 0, 255, 255]);
+    expect(pixel(frame, 480, 30)[3]).toBe(0);
+    // Cached for the view
+    expect(rasterTiles.frame(layer, world, [960, 600])).toBe(frame);
+  });
+
+  it('should place tiles directly on a Web Mercator, with ancestors for missing ones', async () => {
+    const world = worldTile();
+    const requested: string[] = [];
+    const source: RasterTileSource = {
+      tile: async (z, x, y) => {
+        requested.push(`${z}/${x}/${y}`);
+        return z === 0 ? world : undefined;
+      },
+    };
+    const layer: MapLayer = {
+      id: 'streets',
+      type: 'raster-tiles',
+      data: { type: 'FeatureCollection', features: [] },
+      raster: { source, maxZoom: 2 },
+    };
+    const mercator = (size: number) =>
+      d3
+        .geoMercator()
+        .scale(size / (2 * Math.PI))
+        .translate([480, 300]);
+
+    // Zoom 0: the world tile repeated east and west
+    expect(rasterTiles.slippyTiles(layer, mercator(256), [960, 600])).toEqual([]);
+    expect(requested).toEqual(['0/0/0']);
+    await new Promise((resolve) => setTimeout(resolve));
+    scheduler.advance(20);
+    const repeated = rasterTiles.slippyTiles(layer, mercator(256), [960, 600])!;
+    expect(repeated.map(({ x }) => x)).toEqual([-160, 96, 352, 608, 864]);
+    expect(repeated[2]).toEqual({
+      pixels: world,
+      crop: [0, 0, 256, 256],
+      x: 352,
+      y: 172,
+      width: 256,
+      height: 256,
+    });
+
+    // Zoom 2 (rounded from a world 1100 px across): its tiles are missing, so parts of the
+    // world tile are drawn instead
+    const zoomed = rasterTiles.slippyTiles(layer, mercator(1100), [960, 600])!;
+    expect(requested).toContain('2/1/1');
+    expect(zoomed).toHaveLength(16);
+    expect(zoomed[5].pixels).toBe(world);
+    expect(zoomed[5].crop).toEqual([64, 64, 64, 64]);
+    expect([zoomed[5].x, zoomed[5].y, zoomed[5].width]).toEqual([205, 25, 275]);
+
+    // Any other projection is reprojected instead
+    expect(rasterTiles.slippyTiles(layer, d3.geoOrthographic(), [960, 600])).toBeUndefined();
+  });
+
+  it('should report tiles that fail to load and not request them again', async () => {
+    let requests = 0;
+    const failure = new Error('404');
+    const errors: TileError[] = [];
+    const layer: MapLayer = {
+      id: 'relief',
+      type: 'raster-tiles',
+      data: { type: 'FeatureCollection', features: [] },
+      raster: {
+        source: {
+          tile: async () => {
+            requests++;
+            throw failure;
+          },
+          maxZoom: 0,
+        },
+        onError: (error) => errors.push(error),
+      },
+    };
+    const world = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+
+    rasterTiles.frame(layer, world, [960, 600]);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(errors).toEqual([{ error: failure, tile: [0, 0, 0] }]);
+
+    rasterTiles.frame(layer, world, [960, 600]);
+    expect(requests).toBe(1);
+  });
+});
@@ -0,0 +1,444 @@
+import { Injectable, inject } from '@angular/core';
+import { GeoProjection } from 'd3-geo';
+import { Subject } from 'rxjs';
+import { MapLayer, RasterPixels, RasterTileSource, TileError } from '../models/map.types';
+import { AnimationScheduler } from './animation-scheduler.service';
+import { HitTestService } from './hit-test.service';
+import {
+  RasterReprojector,
+  RasterWorkerRequest,
+  RasterWorkerResponse,
+  buildMesh,
+} from './raster-reprojection';
+import { createRasterSource } from './raster-tile-source';
+import { TileCoordinates, tileTransform } from './tile-math';
+import { VectorTileService } from './vector-tile.service';
+
+const DEFAULT_MIN_ZOOM = 0;
+const DEFAULT_MAX_ZOOM = 18;
+const DEFAULT_TILE_SIZE = 256;
+const DEFAULT_CACHE_SIZE = 128;
+const DEFAULT_PREVIEW_RESOLUTION = 0.25;
+// Mesh grid spacing in output px (a power of 2): 16 screen px for full frames and previews
+const MESH_STEP = 16;
+const PREVIEW_MESH_STEP = 4;
+// Full-resolution frames kept per source, e.g. for the views of a looping animation
+const FRAME_CACHE_SIZE = 8;
+// Wait before redrawing a view that changed while its frame was reprojected (ms)
+const IDLE_DELAY = 50;
+// Locations whose screen positions identify a view of a projection
+const PROBES: [number, number][] = [
+  [0, 0],
+  [90, 30],
+  [-120, -45],
+  [170, 70],
+];
+
+/**
+ * A reprojected image of the view, drawn stretched over the viewport
+ */
+export interface RasterFrame extends RasterPixels {
+  preview: boolean; // low resolution, standing in while the full frame is reprojected
+}
+
+/**
+ * A tile image placed on screen for a slippy map: the crop [x, y, width, height] of the image
+ * (all of it, or part of an ancestor standing in) drawn into the screen rectangle
+ */
+export interface SlippyTile {
+  pixels: RasterPixels;
+  crop: [number, number, number, number];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A loaded tile; tiles that don't exist or failed to load have no pixels
+ */
+interface LoadedTile {
+  tile: TileCoordinates;
+  pixels?: RasterPixels;
+}
+
+/**
+ * Loaded tiles and reprojected frames of one source
+ */
+interface RasterCache {
+  id: number;
+  source: RasterTileSource;
+  // Main-thread copy of the tiles, for previews (and full frames without a worker)
+  reprojector: RasterReprojector;
+  tiles: Map<string, LoadedTile>; // least recently used first
+  loading: Set<string>;
+  generation: number; // counts loaded tiles, so frames drawn before a tile arrived are redrawn
+  frames: Map<string, RasterFrame>; // full-resolution frames by view, least recently used first
+  preview?: { view: string; frame: RasterFrame };
+  rendering: boolean; // a full frame is being reprojected
+  latest?: string; // view last asked for
+  onError?: (error: TileError) => void; // of the layer that last drew the source
+}
+
+/**
+ * A full frame being reprojected
+ */
+interface RasterJob {
+  cache: RasterCache;
+  view: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Raster Tile Service
+ * Supplies the images of 'raster-tiles' layers. Web Mercator image tiles covering the view are
+ * picked like vector tiles and reprojected into the active projection by inverse mapping: the
+ * viewport is inverted on a mesh (split finely along the edge of the map), and a Web Worker
+ * fills every pixel in between from the tiles. A full frame takes longer than an animation
+ * frame, so until a view's frame is ready a low-resolution preview is reprojected on the main
+ * thread, and full frames are cached by view. In a north-up Web Mercator (a slippy map) the
+ * tiles are drawn directly instead. onUpdate asks for a redraw once per frame when tiles load
+ * or a full frame is ready.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class RasterTileService {
+  private hitTester = inject(HitTestService);
+  private vectorTiles = inject(VectorTileService);
+  private scheduler = inject(AnimationScheduler);
+
+  // Emitted (at most once per frame) when tiles have loaded or a full frame is ready
+  public onUpdate = new Subject<void>();
+
+  private caches = new Map<string | RasterTileSource, RasterCache>();
+  // Created on first use; null where Web Workers are unavailable (or failed to start)
+  private worker?: Worker | null;
+  private jobs = new Map<number, RasterJob>();
+  private nextId = 1;
+  private notifyFrame?: number;
+
+  /**
+   * The image of a layer over the viewport [width, height]: the full frame if it is ready,
+   * else a preview. Returns at once, requesting missing tiles and the full frame.
+   */
+  frame(
+    layer: MapLayer,
+    projection: GeoProjection,
+    [width, height]: [number, number]
+  ): RasterFrame | undefined {
+    const options = layer.raster;
+    if (!options) return undefined;
+
+    const cache = this.cache(options.source);
+    cache.onError = options.onError;
+    const minZoom = options.minZoom ?? cache.source.minZoom ?? DEFAULT_MIN_ZOOM;
+    const tiles = this.vectorTiles.tilesInView(projection, [width, height], {
+      minZoom,
+      maxZoom: options.maxZoom ?? cache.source.maxZoom ?? DEFAULT_MAX_ZOOM,
+      tileSize: options.tileSize ?? DEFAULT_TILE_SIZE,
+    });
+    if (!tiles.length) return undefined;
+
+    for (const tile of tiles) {
+      this.useTile(cache, tile, options.cacheSize ?? DEFAULT_CACHE_SIZE);
+    }
+
+    const [zoom] = tiles[0];
+    const probes = PROBES.map((probe) => projection(probe)?.map((value) => value.toFixed(2)));
+    const view = [width, height, zoom, cache.generation, ...probes].join(' ');
+    cache.latest = view;
+
+    const frame = cache.frames.get(view);
+    if (frame) {
+      cache.frames.delete(view);
+      cache.frames.set(view, frame);
+      return frame;
+    }
+
+    this.reproject(cache, view, projection, [width, height], zoom, minZoom);
+    const resolution = options.previewResolution ?? DEFAULT_PREVIEW_RESOLUTION;
+    return this.preview(cache, view, projection, [width, height], zoom, minZoom, resolution);
+  }
+
+  /**
+   * The tiles of a layer covering the viewport [width, height] when the projection is a
+   * north-up Web Mercator: tiles of the integer zoom nearest the view's, scaled to it and
+   * repeated east and west, with loaded ancestors standing in for missing tiles. Undefined for
+   * any other projection, which needs frame().
+   */
+  slippyTiles(
+    layer: MapLayer,
+    projection: GeoProjection,
+    [width, height]: [number, number]
+  ): SlippyTile[] | undefined {
+    const options = layer.raster;
+    const transform = options && tileTransform(projection, options.tileSize ?? DEFAULT_TILE_SIZE);
+    if (!options || !transform) return undefined;
+
+    const cache = this.cache(options.source);
+    cache.onError = options.onError;
+    const minZoom = options.minZoom ?? cache.source.minZoom ?? DEFAULT_MIN_ZOOM;
+    const maxZoom = options.maxZoom ?? cache.source.maxZoom ?? DEFAULT_MAX_ZOOM;
+    const zoom = Math.min(Math.max(Math.round(transform.zoom), minZoom), maxZoom);
+    const n = 2 ** zoom;
+    const size = transform.size / n;
+    const [left, top] = transform.translate;
+
+    const placed: SlippyTile[] = [];
+    const [firstRow, lastRow] = [Math.floor(-top / size), Math.floor((height - top) / size)];
+    for (let j = Math.max(firstRow, 0); j <= Math.min(lastRow, n - 1); j++) {
+      for (let i = Math.floor(-left / size); i <= Math.floor((width - left) / size); i++) {
+        const tile: TileCoordinates = [zoom, ((i % n) + n) % n, j];
+        const image = this.tileImage(cache, tile, options.cacheSize ?? DEFAULT_CACHE_SIZE);
+        if (!image) continue;
+
+        // Edges rounded to whole pixels, so neighbouring tiles leave no seams
+        const [x, y] = [Math.round(left + i * size), Math.round(top + j * size)];
+        placed.push({
+          ...image,
+          x,
+          y,
+          width: Math.round(left + (i + 1) * size) - x,
+          height: Math.round(top + (j + 1) * size) - y,
+        });
+      }
+    }
+    return placed;
+  }
+
+  private cache(source: string | RasterTileSource): RasterCache {
+    let cache = this.caches.get(source);
+    if (!cache) {
+      // Started before any tile loads, so the worker receives every tile
+      this.startWorker();
+      cache = {
+        id: this.caches.size,
+        source: createRasterSource(source),
+        reprojector: new RasterReprojector(),
+        tiles: new Map(),
+        loading: new Set(),
+        generation: 0,
+        frames: new Map(),
+        rendering: false,
+      };
+      this.caches.set(source, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Mark a tile as used, or load it if it isn't loaded
+   */
+  private useTile(cache: RasterCache, tile: TileCoordinates, cacheSize: number): void {
+    const key = tileKey(tile);
+    const loaded = cache.tiles.get(key);
+    if (loaded) {
+      // Most recently used last
+      cache.tiles.delete(key);
+      cache.tiles.set(key, loaded);
+    } else {
+      this.load(cache, tile, cacheSize);
+    }
+  }
+
+  /**
+   * A tile's image, else the matching part of its nearest loaded ancestor's
+   */
+  private tileImage(
+    cache: RasterCache,
+    tile: TileCoordinates,
+    cacheSize: number
+  ): Pick<SlippyTile, 'pixels' | 'crop'> | undefined {
+    this.useTile(cache, tile, cacheSize);
+    const [z, x, y] = tile;
+    for (let parent = z; parent >= 0; parent--) {
+      const shift = z - parent;
+      const pixels = cache.tiles.get(tileKey([parent, x >> shift, y >> shift]))?.pixels;
+      if (!pixels) continue;
+
+      const parts = 2 ** shift;
+      const [width, height] = [pixels.width / parts, pixels.height / parts];
+      const crop: SlippyTile['crop'] = [(x % parts) * width, (y % parts) * height, width, height];
+      return { pixels, crop };
+    }
+    return undefined;
+  }
+
+  /**
+   * Reproject the full frame of a view, unless another one is under way (once it is ready,
+   * the view that is current by then is requested)
+   */
+  private reproject(
+    cache: RasterCache,
+    view: string,
+    projection: GeoProjection,
+    [width, height]: [number, number],
+    zoom: number,
+    minZoom: number
+  ): void {
+    if (cache.rendering) return;
+    cache.rendering = true;
+
+    // Output pixels are sampled at their centers
+    const mesh = buildMesh(
+      ([x, y]) => this.hitTester.invert(projection, [x + 0.5, y + 0.5]),
+      width,
+      height,
+      MESH_STEP
+    );
+    const id = this.nextId++;
+    this.jobs.set(id, { cache, view, width, height });
+
+    if (this.worker) {
+      const request: RasterWorkerRequest = {
+        type: 'render',
+        id,
+        source: cache.id,
+        mesh,
+        zoom,
+        minZoom,
+      };
+      this.worker.postMessage(request, [mesh.cells.buffer]);
+    } else {
+      // Between frames on the main thread instead
+      this.scheduler.setTimeout(() => {
+        this.rendered({ id, data: cache.reprojector.render(mesh, zoom, minZoom) });
+      }, 0);
+    }
+  }
+
+  private rendered({ id, data }: RasterWorkerResponse): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    this.jobs.delete(id);
+
+    const { cache, view, width, height } = job;
+    cache.rendering = false;
+    cache.frames.set(view, { width, height, data, preview: false });
+    for (const oldest of cache.frames.keys()) {
+      if (cache.frames.size <= FRAME_CACHE_SIZE) break;
+      cache.frames.delete(oldest);
+    }
+
+    if (view === cache.latest) {
+      this.notify();
+      return;
+    }
+    // The view moved on meanwhile. While animating, the next render requests the new view;
+    // once the view stays put, redraw so its full frame is requested.
+    const latest = cache.latest;
+    this.scheduler.setTimeout(() => {
+      if (cache.latest === latest && !cache.rendering) this.notify();
+    }, IDLE_DELAY);
+  }
+
+  /**
+   * Reproject a view at low resolution on the main thread (cached for the latest view, so
+   * redraws of a still view don't repeat it)
+   */
+  private preview(
+    cache: RasterCache,
+    view: string,
+    projection: GeoProjection,
+    [width, height]: [number, number],
+    zoom: number,
+    minZoom: number,
+    resolution: number
+  ): RasterFrame {
+    if (cache.preview?.view === view) return cache.preview.frame;
+
+    const previewWidth = Math.max(Math.round(width * resolution), 1);
+    const previewHeight = Math.max(Math.round(height * resolution), 1);
+    const [scaleX, scaleY] = [width / previewWidth, height / previewHeight];
+    const mesh = buildMesh(
+      ([x, y]) => this.hitTester.invert(projection, [(x + 0.5) * scaleX, (y + 0.5) * scaleY]),
+      previewWidth,
+      previewHeight,
+      PREVIEW_MESH_STEP
+    );
+    const frame: RasterFrame = {
+      width: previewWidth,
+      height: previewHeight,
+      data: cache.reprojector.render(mesh, zoom, minZoom),
+      preview: true,
+    };
+    cache.preview = { view, frame };
+    return frame;
+  }
+
+  /**
+   * Fetch and decode a tile in the background. Failed tiles are reported to the layer's
+   * onError and kept as missing, so a bad tile is not requested again on every frame.
+   */
+  private load(cache: RasterCache, tile: TileCoordinates, cacheSize: number): void {
+    const key = tileKey(tile);
+    if (cache.loading.has(key)) return;
+    cache.loading.add(key);
+
+    cache.source
+      .tile(...tile)
+      .catch((error): undefined => {
+        cache.onError?.({ error, tile });
+        return undefined;
+      })
+      .then((pixels) => {
+        cache.loading.delete(key);
+        cache.tiles.set(key, { tile, pixels });
+        if (pixels) {
+          cache.reprojector.setTile(tile, pixels);
+          this.post({ type: 'tile', source: cache.id, tile, pixels });
+        }
+        for (const [oldest, { tile: dropped }] of cache.tiles) {
+          if (cache.tiles.size <= cacheSize) break;
+          cache.tiles.delete(oldest);
+          cache.reprojector.deleteTile(dropped);
+          this.post({ type: 'drop', source: cache.id, tile: dropped });
+        }
+        cache.generation++;
+        this.notify();
+      });
+  }
+
+  private startWorker(): void {
+    if (this.worker !== undefined) return;
+    if (typeof Worker === 'undefined') {
+      this.worker = null;
+      return;
+    }
+
+    const worker = new Worker(new URL('./raster-tile.worker', import.meta.url), {
+      type: 'module',
+    });
+    worker.addEventListener('message', ({ data }: MessageEvent<RasterWorkerResponse>) =>
+      this.rendered(data)
+    );
+    worker.addEventListener('error', (error) => {
+      // Carry on without it: frames under way are requested again on the main thread
+      const handlers = new Set([...this.caches.values()].map((cache) => cache.onError));
+      for (const onError of handlers) onError?.({ error });
+      this.worker = null;
+      for (const { cache } of this.jobs.values()) cache.rendering = false;
+      this.jobs.clear();
+      this.notify();
+    });
+    this.worker = worker;
+  }
+
+  private post(request: RasterWorkerRequest): void {
+    this.worker?.postMessage(request);
+  }
+
+  private notify(): void {
+    if (this.notifyFrame !== undefined) return;
+    this.notifyFrame = this.scheduler.requestFrame(() => {
+      this.notifyFrame = undefined;
+      this.onUpdate.next();
+    });
+  }
+}
+
+function tileKey([z, x, y]: TileCoordinates): string {
+  return `${z}/${x}/${y}`;
+}
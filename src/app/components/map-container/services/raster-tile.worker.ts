@@ -0,0 +1,29 @@
+import {
+  RasterReprojector,
+  RasterWorkerRequest,
+  RasterWorkerResponse,
+} from './raster-reprojection';
+
+/**
+ * Raster Tile Worker
+ * Reprojects raster tile frames off the main thread for RasterTileService
+ */
+const reprojectors = new Map<number, RasterReprojector>();
+
+addEventListener('message', ({ data }: MessageEvent<RasterWorkerRequest>) => {
+  let reprojector = reprojectors.get(data.source);
+  if (!reprojector) {
+    reprojector = new RasterReprojector();
+    reprojectors.set(data.source, reprojector);
+  }
+
+  if (data.type === 'tile') {
+    reprojector.setTile(data.tile, data.pixels);
+  } else if (data.type === 'drop') {
+    reprojector.deleteTile(data.tile);
+  } else {
+    const pixels = reprojector.render(data.mesh, data.zoom, data.minZoom);
+    const response: RasterWorkerResponse = { id: data.id, data: pixels };
+    postMessage(response, { transfer: [pixels.buffer] });
+  }
+});
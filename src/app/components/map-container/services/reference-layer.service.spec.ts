@@ -0,0 +1,52 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { LineString } from 'geojson';
+import { ReferenceLayerService } from './reference-layer.service';
+
+describe('ReferenceLayerService', () => {
+  let referenceLayers: ReferenceLayerService;
+
+  beforeEach(() => {
+    referenceLayers = TestBed.inject(ReferenceLayerService);
+  });
+
+  it('should split the graticule into minor and major lines', () => {
+    const options = { step: [10, 10] as [number, number], majorStep: [30, 30] as [number, number] };
+    const { data, style } = referenceLayers.graticule(options);
+    const major = data.features.filter((feature) => feature.properties?.['major']);
+    const minor = data.features.filter((feature) => !feature.properties?.['major']);
+
+    // 12 major meridians and 5 major parallels (±60, ±30, 0); the rest are minor
+    expect(major).toHaveLength(17);
+    expect(minor.length).toBeGreaterThan(major.length);
+    // Minor lines are drawn first
+    expect(data.features.indexOf(major[0])).toBe(minor.length);
+    expect(typeof style.strokeWidth === 'function' && style.strokeWidth(major[0], 0)).toBe(0.6);
+    // The same options give the same data
+    expect(referenceLayers.graticule(options).data).toBe(data);
+
+    const regional = referenceLayers.graticule({
+      extent: [
+        [-20, 30],
+        [40, 70],
+      ],
+    }).data;
+    for (const feature of regional.features) {
+      for (const [lon, lat] of (feature.geometry as LineString).coordinates) {
+        expect(lon).toBeGreaterThanOrEqual(-20 - 1e-6);
+        expect(lat).toBeLessThanOrEqual(70 + 1e-6);
+      }
+    }
+  });
+
+  it("should outline the projection's shape with the sphere", () => {
+    const sphere = referenceLayers.sphere();
+    const globe = d3.geoOrthographic().scale(100).translate([150, 150]);
+
+    const [[x0, y0], [x1, y1]] = d3.geoPath(globe).bounds(sphere);
+    expect([x0, y0, x1, y1].map(Math.round)).toEqual([50, 50, 250, 250]);
+    // Rotating the globe doesn't change its outline
+    globe.rotate([120, -40]);
+    expect(d3.geoPath(globe).area(sphere) / (Math.PI * 100 * 100)).toBeCloseTo(1, 2);
+  });
+});
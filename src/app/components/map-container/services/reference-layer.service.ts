@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+import * as d3 from 'd3';
+import { Feature, FeatureCollection, Geometry, LineString } from 'geojson';
+import { GraticuleOptions, LayerStyle } from '../models/map.types';
+
+export const DEFAULT_OCEAN_STYLE: LayerStyle = { fill: '#dbe9f4', stroke: 'none' };
+export const DEFAULT_SPHERE_STYLE: LayerStyle = { fill: 'none', stroke: '#555', strokeWidth: 1 };
+
+const DEFAULT_GRATICULE_STEP: [number, number] = [10, 10];
+const DEFAULT_GRATICULE_MAJOR_STEP: [number, number] = [30, 30];
+const DEFAULT_GRATICULE_PRECISION = 2.5;
+
+// The whole globe as one feature. d3-geo draws the Sphere type as the projection's outline
+// (a rectangle, an ellipse, a circle...); it is not a GeoJSON geometry type, hence the cast.
+const SPHERE: FeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', properties: {}, geometry: { type: 'Sphere' } as unknown as Geometry },
+  ],
+};
+
+/**
+ * A graticule as layer data and the style telling its major and minor lines apart
+ */
+export interface GraticuleLayer {
+  data: FeatureCollection;
+  style: LayerStyle;
+}
+
+/**
+ * Reference Layer Service
+ * Builds the data of the built-in reference layers: the ocean and outline (the projected
+ * sphere) and the graticule. They are plain geographic layers, so they are projected like
+ * any other and follow rotation, zoom and morphs.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ReferenceLayerService {
+  // Built once per options object, so styles compiled against the data stay cached
+  private graticules = new WeakMap<GraticuleOptions, GraticuleLayer>();
+
+  /**
+   * The sphere: fill it for an ocean, stroke it for the map's outline
+   */
+  sphere(): FeatureCollection {
+    return SPHERE;
+  }
+
+  /**
+   * Graticule lines, minor lines first so major lines draw over them. Each line has a
+   * `major` property.
+   */
+  graticule(options: GraticuleOptions = {}): GraticuleLayer {
+    let graticule = this.graticules.get(options);
+    if (!graticule) {
+      graticule = { data: this.graticuleData(options), style: graticuleStyle(options) };
+      this.graticules.set(options, graticule);
+    }
+    return graticule;
+  }
+
+  private graticuleData(options: GraticuleOptions): FeatureCollection {
+    const step = options.step ?? DEFAULT_GRATICULE_STEP;
+    const majorStep = options.majorStep ?? DEFAULT_GRATICULE_MAJOR_STEP;
+    if ([...step, ...majorStep].some((value) => !(value > 0))) {
+      throw new Error('Graticule steps must be positive');
+    }
+
+    const generator = d3
+      .geoGraticule()
+      .stepMinor(step)
+      .stepMajor(majorStep)
+      .precision(options.precision ?? DEFAULT_GRATICULE_PRECISION);
+    if (options.extent) {
+      generator.extent(options.extent);
+    }
+
+    const features = generator.lines().map(
+      (line): Feature => ({
+        type: 'Feature',
+        properties: { major: isMajorLine(line, majorStep) },
+        geometry: line,
+      })
+    );
+    return {
+      type: 'FeatureCollection',
+      features: [
+        ...features.filter((feature) => !feature.properties?.['major']),
+        ...features.filter((feature) => feature.properties?.['major']),
+      ],
+    };
+  }
+}
+
+/**
+ * Meridians have a constant longitude, parallels a constant latitude; a line is major when
+ * that value is a multiple of the major step
+ */
+function isMajorLine(line: LineString, majorStep: [number, number]): boolean {
+  const [[lon0, lat0], [lon1]] = line.coordinates;
+  const meridian = Math.abs(lon1 - lon0) < 1e-6;
+  const value = meridian ? lon0 : lat0;
+  const step = meridian ? majorStep[0] : majorStep[1];
+  const remainder = Math.abs(value % step);
+  return remainder < 1e-6 || Math.abs(remainder - step) < 1e-6;
+}
+
+function graticuleStyle(options: GraticuleOptions): LayerStyle {
+  const pick =
+    <T>(minor: T, major: T) =>
+    (feature: Feature) =>
+      feature.properties?.['major'] ? major : minor;
+
+  return {
+    fill: 'none',
+    stroke: pick(options.stroke ?? '#aaa', options.majorStroke ?? '#888'),
+    strokeWidth: pick(options.strokeWidth ?? 0.3, options.majorStrokeWidth ?? 0.6),
+  };
+}
@@ -0,0 +1,58 @@
+import { TestBed } from '@angular/core/testing';
+import continentTourStory from '../../../data/stories/continent-tour.json';
+import worldCitiesStory from '../../../data/stories/world-cities.json';
+import { MAP_INSTANCE_PROVIDERS } from './map-instance.providers';
+import { StoryLoaderService, StoryValidationError } from './story-loader.service';
+
+describe('StoryLoaderService', () => {
+  let loader: StoryLoaderService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: MAP_INSTANCE_PROVIDERS });
+    loader = TestBed.inject(StoryLoaderService);
+  });
+
+  it('should load the bundled stories', () => {
+    expect(loader.validate(continentTourStory)).toEqual([]);
+
+    const { title, sequence } = loader.parse(JSON.stringify(worldCitiesStory));
+    expect(title).toBe('World Cities');
+    expect(sequence.steps[0].extent?.center).toEqual([-74.006, 40.7128]);
+    expect(sequence.steps[0].layers).toEqual({ tissot: false });
+  });
+
+  it('should report every problem with its location', () => {
+    const issues = loader.validate({
+      version: 1,
+      steps: [
+        { extent: { center: [200, 10], scale: 50 }, duration: 1000, easing: 'wobble' },
+        { label: 'No target', duration: -5 },
+      ],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'steps[0].extent.center[0]',
+      'steps[0].extent.scale',
+      'steps[0].easing',
+      'steps[1].duration',
+      'steps[1]',
+    ]);
+  });
+
+  it('should reject easing names inherited from Object.prototype', () => {
+    const issues = loader.validate({
+      version: 1,
+      steps: [
+        { extent: { center: [0, 0], scale: 2 }, duration: 1000, easing: 'toString' },
+        { extent: { center: [0, 0], scale: 1 }, duration: 1000, easing: 'constructor' },
+      ],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual(['steps[0].easing', 'steps[1].easing']);
+  });
+
+  it('should throw a StoryValidationError for invalid input', () => {
+    expect(() => loader.parse('{ not json')).toThrowError(StoryValidationError);
+    expect(() => loader.parse({ version: 2, steps: [] })).toThrowError(/unsupported version 2/);
+  });
+});
@@ -0,0 +1,457 @@
+import { Injectable, inject } from '@angular/core';
+import { STORY_FORMAT_VERSION, StoryDocument } from '../models/story.types';
+import { AnimationSequence, AnimationStep, EASINGS } from './animation-controller.service';
+import { GeoZoomService } from './geo-zoom.service';
+import { ProjectionRegistryService } from './projection-registry.service';
+
+/**
+ * One problem found in a story, located by a JSON path such as `steps[2].extent.center`
+ */
+export interface StoryIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a story does not validate; `issues` lists every problem found
+ */
+export class StoryValidationError extends Error {
+  constructor(public readonly issues: StoryIssue[]) {
+    super(
+      `Invalid story (${issues.length} ${issues.length === 1 ? 'problem' : 'problems'}):\n` +
+        issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')
+    );
+    this.name = 'StoryValidationError';
+  }
+}
+
+export interface LoadedStory {
+  title?: string;
+  description?: string;
+  sequence: AnimationSequence;
+}
+
+export interface StoryValidationOptions {
+  scaleExtent?: [number, number]; // defaults to the map's ZoomConfig.scaleExtent
+}
+
+const STORY_KEYS = [
+  '$schema',
+  'version',
+  'title',
+  'description',
+  'loop',
+  'loopCount',
+  'loopDelay',
+  'steps',
+];
+const STEP_KEYS = [
+  'label',
+  'caption',
+  'extent',
+  'fit',
+  'duration',
+  'easing',
+  'delay',
+  'hold',
+  'flyTo',
+  'projection',
+  'projectionOptions',
+  'layers',
+  'draw',
+];
+const PROJECTION_OPTION_KEYS = ['rotate', 'center', 'parallels', 'clipAngle', 'precision', 'fit'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Story Loader Service
+ * Parses and validates JSON story files (see models/story.types.ts) into animation
+ * sequences, reporting every problem with its location
+ */
+@Injectable()
+export class StoryLoaderService {
+  private geoZoom = inject(GeoZoomService);
+  private projectionRegistry = inject(ProjectionRegistryService);
+
+  /**
+   * Fetch and parse a story file
+   */
+  async load(url: string, options: StoryValidationOptions = {}): Promise<LoadedStory> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Could not load story "${url}": ${response.status} ${response.statusText}`);
+    }
+    return this.parse(await response.text(), options);
+  }
+
+  /**
+   * Parse a story from JSON text or an already parsed object.
+   * Throws StoryValidationError listing every problem found.
+   */
+  parse(input: unknown, options: StoryValidationOptions = {}): LoadedStory {
+    let story = input;
+    if (typeof input === 'string') {
+      try {
+        story = JSON.parse(input);
+      } catch (error) {
+        throw new StoryValidationError([
+          { path: '$', message: `not valid JSON (${(error as Error).message})` },
+        ]);
+      }
+    }
+
+    const issues = this.validate(story, options);
+    if (issues.length > 0) {
+      throw new StoryValidationError(issues);
+    }
+
+    return this.toSequence(story as StoryDocument);
+  }
+
+  /**
+   * Check a parsed story, returning all problems (empty when valid)
+   */
+  validate(story: unknown, options: StoryValidationOptions = {}): StoryIssue[] {
+    const issues: StoryIssue[] = [];
+    const report = (path: string, message: string) => issues.push({ path, message });
+
+    if (!isObject(story)) {
+      report('$', 'a story must be a JSON object');
+      return issues;
+    }
+
+    this.checkKeys(story, STORY_KEYS, '', report);
+
+    if (story['version'] === undefined) {
+      report('version', `is required (current version: ${STORY_FORMAT_VERSION})`);
+    } else if (story['version'] !== STORY_FORMAT_VERSION) {
+      const version = JSON.stringify(story['version']);
+      report('version', `unsupported version ${version} (supported: ${STORY_FORMAT_VERSION})`);
+    }
+
+    this.checkOptional(story, 'title', 'string', 'title', report);
+    this.checkOptional(story, 'description', 'string', 'description', report);
+    this.checkOptional(story, 'loop', 'boolean', 'loop', report);
+    this.checkDuration(story['loopDelay'], 'loopDelay', report);
+    const loopCount = story['loopCount'];
+    if (loopCount !== undefined && !(Number.isInteger(loopCount) && (loopCount as number) >= 1)) {
+      report('loopCount', 'must be a whole number of plays, 1 or more');
+    }
+
+    const steps = story['steps'];
+    if (!Array.isArray(steps) || steps.length === 0) {
+      report('steps', 'must be a non-empty array of steps');
+    } else {
+      const scaleExtent = options.scaleExtent ?? this.geoZoom.getScaleExtent();
+      steps.forEach((step, index) =>
+        this.validateStep(step, `steps[${index}]`, scaleExtent, report)
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Validate one step
+   */
+  private validateStep(
+    step: unknown,
+    path: string,
+    scaleExtent: [number, number],
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(step)) {
+      report(path, 'a step must be an object');
+      return;
+    }
+
+    this.checkKeys(step, STEP_KEYS, `${path}.`, report);
+    this.checkOptional(step, 'label', 'string', `${path}.label`, report);
+    this.checkOptional(step, 'caption', 'string', `${path}.caption`, report);
+
+    if (step['duration'] === undefined) {
+      report(`${path}.duration`, 'is required (milliseconds)');
+    } else {
+      this.checkDuration(step['duration'], `${path}.duration`, report);
+    }
+    this.checkDuration(step['delay'], `${path}.delay`, report);
+    this.checkDuration(step['hold'], `${path}.hold`, report);
+
+    const extent = step['extent'];
+    if (extent !== undefined) {
+      if (!isObject(extent)) {
+        report(`${path}.extent`, 'must be an object with center and scale');
+      } else {
+        this.checkCoordinates(extent['center'], `${path}.extent.center`, report);
+        this.checkScale(extent['scale'], `${path}.extent.scale`, scaleExtent, report);
+      }
+    }
+
+    const fit = step['fit'];
+    if (fit !== undefined) {
+      this.validateFit(fit, `${path}.fit`, report);
+    }
+    if (extent === undefined && fit === undefined && step['projection'] === undefined) {
+      report(path, 'needs an extent, a fit target or a projection');
+    }
+
+    const easing = step['easing'];
+    if (easing !== undefined && !(typeof easing === 'string' && Object.hasOwn(EASINGS, easing))) {
+      report(
+        `${path}.easing`,
+        `unknown easing ${JSON.stringify(easing)} (available: ${Object.keys(EASINGS).join(', ')})`
+      );
+    }
+
+    const flyTo = step['flyTo'];
+    if (flyTo !== undefined && typeof flyTo !== 'boolean') {
+      if (!isObject(flyTo)) {
+        report(`${path}.flyTo`, 'must be true, false or { rho, speed }');
+      } else {
+        this.checkKeys(flyTo, ['rho', 'speed'], `${path}.flyTo.`, report);
+        this.checkPositive(flyTo['rho'], `${path}.flyTo.rho`, report);
+        this.checkPositive(flyTo['speed'], `${path}.flyTo.speed`, report);
+      }
+    }
+
+    const projection = step['projection'];
+    if (projection !== undefined) {
+      if (typeof projection !== 'string' || !this.projectionRegistry.has(projection)) {
+        report(
+          `${path}.projection`,
+          `unknown projection ${JSON.stringify(projection)} ` +
+            `(registered: ${this.projectionRegistry.names().join(', ')})`
+        );
+      }
+    }
+    const projectionOptions = step['projectionOptions'];
+    if (projectionOptions !== undefined) {
+      this.validateProjectionOptions(projectionOptions, `${path}.projectionOptions`, report);
+    }
+
+    const layers = step['layers'];
+    if (layers !== undefined) {
+      if (!isObject(layers)) {
+        report(`${path}.layers`, 'must map layer names to true or false');
+      } else {
+        for (const [name, visible] of Object.entries(layers)) {
+          if (typeof visible !== 'boolean') {
+            report(`${path}.layers.${name}`, 'must be true or false');
+          }
+        }
+      }
+    }
+
+    const draw = step['draw'];
+    if (draw !== undefined) {
+      if (!Array.isArray(draw) || !draw.every((name) => typeof name === 'string')) {
+        report(`${path}.draw`, 'must be a list of layer names');
+      }
+    }
+  }
+
+  /**
+   * Validate a fit target: lon/lat bounds or a GeoJSON object
+   */
+  private validateFit(
+    fit: unknown,
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(fit)) {
+      report(path, 'must be an object with bounds or geometry');
+      return;
+    }
+
+    this.checkKeys(fit, ['bounds', 'geometry', 'padding'], `${path}.`, report);
+    this.checkDuration(fit['padding'], `${path}.padding`, report, 'pixels');
+
+    const bounds = fit['bounds'];
+    if (bounds !== undefined) {
+      if (!isObject(bounds)) {
+        report(`${path}.bounds`, 'must be { minLon, maxLon, minLat, maxLat }');
+      } else {
+        const keys = ['minLon', 'maxLon', 'minLat', 'maxLat'];
+        this.checkKeys(bounds, keys, `${path}.bounds.`, report);
+        for (const key of ['minLon', 'maxLon']) {
+          this.checkRange(bounds[key], `${path}.bounds.${key}`, -180, 180, 'longitude', report);
+        }
+        for (const key of ['minLat', 'maxLat']) {
+          this.checkRange(bounds[key], `${path}.bounds.${key}`, -90, 90, 'latitude', report);
+        }
+        if (isNumber(bounds['minLat']) && isNumber(bounds['maxLat'])) {
+          if (bounds['minLat'] > bounds['maxLat']) {
+            report(`${path}.bounds`, 'minLat must not be greater than maxLat');
+          }
+        }
+      }
+    }
+
+    const geometry = fit['geometry'];
+    if (geometry !== undefined && !(isObject(geometry) && typeof geometry['type'] === 'string')) {
+      report(`${path}.geometry`, 'must be a GeoJSON Feature, FeatureCollection or Geometry');
+    }
+    if (bounds === undefined && geometry === undefined) {
+      report(path, 'needs bounds or geometry');
+    }
+  }
+
+  /**
+   * Validate projection options
+   */
+  private validateProjectionOptions(
+    options: unknown,
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isObject(options)) {
+      report(path, 'must be an object');
+      return;
+    }
+
+    this.checkKeys(options, PROJECTION_OPTION_KEYS, `${path}.`, report);
+    if (options['center'] !== undefined) {
+      this.checkCoordinates(options['center'], `${path}.center`, report);
+    }
+    const rotate = options['rotate'];
+    const isRotation =
+      Array.isArray(rotate) &&
+      (rotate.length === 2 || rotate.length === 3) &&
+      rotate.every(isNumber);
+    if (rotate !== undefined && !isRotation) {
+      report(`${path}.rotate`, 'must be [lambda, phi] or [lambda, phi, gamma] in degrees');
+    }
+    const parallels = options['parallels'];
+    if (parallels !== undefined) {
+      if (!(Array.isArray(parallels) && parallels.length === 2)) {
+        report(`${path}.parallels`, 'must be two latitudes');
+      } else {
+        parallels.forEach((lat, i) =>
+          this.checkRange(lat, `${path}.parallels[${i}]`, -90, 90, 'latitude', report)
+        );
+      }
+    }
+    if (options['clipAngle'] !== undefined) {
+      this.checkRange(options['clipAngle'], `${path}.clipAngle`, 0, 180, 'angle', report);
+    }
+    this.checkPositive(options['precision'], `${path}.precision`, report);
+    this.checkOptional(options, 'fit', 'boolean', `${path}.fit`, report);
+  }
+
+  /**
+   * Convert a validated story into an animation sequence
+   */
+  private toSequence(story: StoryDocument): LoadedStory {
+    const steps: AnimationStep[] = story.steps.map((step) => ({
+      ...step,
+      extent: step.extent && { center: [...step.extent.center], scale: step.extent.scale },
+    }));
+
+    return {
+      title: story.title,
+      description: story.description,
+      sequence: {
+        steps,
+        loop: story.loop,
+        loopCount: story.loopCount,
+        loopDelay: story.loopDelay,
+      },
+    };
+  }
+
+  private checkKeys(
+    value: JsonObject,
+    allowed: string[],
+    prefix: string,
+    report: (path: string, message: string) => void
+  ): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        report(`${prefix}${key}`, `unknown property (allowed: ${allowed.join(', ')})`);
+      }
+    }
+  }
+
+  private checkOptional(
+    value: JsonObject,
+    key: string,
+    type: 'string' | 'boolean',
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (value[key] !== undefined && typeof value[key] !== type) {
+      report(path, `must be a ${type}`);
+    }
+  }
+
+  private checkDuration(
+    value: unknown,
+    path: string,
+    report: (path: string, message: string) => void,
+    unit = 'milliseconds'
+  ): void {
+    if (value !== undefined && !(isNumber(value) && value >= 0)) {
+      report(path, `must be a number of ${unit}, 0 or more`);
+    }
+  }
+
+  private checkPositive(
+    value: unknown,
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (value !== undefined && !(isNumber(value) && value > 0)) {
+      report(path, 'must be a number greater than 0');
+    }
+  }
+
+  private checkRange(
+    value: unknown,
+    path: string,
+    min: number,
+    max: number,
+    name: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isNumber(value)) {
+      report(path, `${name} must be a number`);
+    } else if (value < min || value > max) {
+      report(path, `${name} ${value} is outside [${min}, ${max}]`);
+    }
+  }
+
+  private checkCoordinates(
+    value: unknown,
+    path: string,
+    report: (path: string, message: string) => void
+  ): void {
+    if (!Array.isArray(value) || value.length !== 2) {
+      report(path, 'must be [longitude, latitude]');
+      return;
+    }
+    this.checkRange(value[0], `${path}[0]`, -180, 180, 'longitude', report);
+    this.checkRange(value[1], `${path}[1]`, -90, 90, 'latitude', report);
+  }
+
+  private checkScale(
+    value: unknown,
+    path: string,
+    scaleExtent: [number, number],
+    report: (path: string, message: string) => void
+  ): void {
+    if (!isNumber(value)) {
+      report(path, 'must be a number (1 = fitted world view)');
+    } else if (value < scaleExtent[0] || value > scaleExtent[1]) {
+      report(path, `scale ${value} is outside the map's scaleExtent [${scaleExtent.join(', ')}]`);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { GeoProjection } from 'd3-geo';
+import { Position } from 'geojson';
+import { TileTransform } from '../models/map.types';
+
+/**
+ * Tile address in the Web Mercator XYZ scheme
+ */
+export type TileCoordinates = [z: number, x: number, y: number];
+
+// Latitude where Web Mercator tiles end
+export const MAX_LATITUDE = 85.0511287798066;
+
+/**
+ * Tile containing a location at a zoom level
+ */
+export function tileAt([lon, lat]: Position, z: number): TileCoordinates {
+  const n = 2 ** z;
+  const x = Math.floor(((lon + 180) / 360) * n);
+  const y = Math.floor(mercatorY(Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat))) * n);
+  return [z, Math.min(Math.max(x, 0), n - 1), Math.min(Math.max(y, 0), n - 1)];
+}
+
+/**
+ * Web Mercator y of a latitude, from 0 at the top of the tile pyramid to 1 at the bottom
+ */
+export function mercatorY(lat: number): number {
+  const phi = (lat * Math.PI) / 180;
+  return (1 - Math.log(Math.tan(phi) + 1 / Math.cos(phi)) / Math.PI) / 2;
+}
+
+/**
+ * The slippy-map tile transform of a north-up Web Mercator projection (e.g. d3.geoMercator
+ * rotated in longitude only), or undefined for any other projection
+ */
+export function tileTransform(
+  projection: GeoProjection,
+  tileSize: number
+): TileTransform | undefined {
+  const [x, y] = projection.translate();
+  const center = projection.invert?.([x, y]);
+  if (!center || !center.every(Number.isFinite)) return undefined;
+
+  const size = 2 * Math.PI * projection.scale();
+  const translate: [number, number] = [
+    x - (size * (center[0] + 180)) / 360,
+    y - size * mercatorY(center[1]),
+  ];
+
+  // Any other projection (or a rotated one) puts locations around the center elsewhere
+  const tolerance = Math.max(0.5, size * 1e-9);
+  for (const offset of [-20, 20]) {
+    const lon = center[0] + offset;
+    const lat = Math.max(-80, Math.min(80, center[1] + offset));
+    const projected = projection([lon, lat]);
+    if (
+      !projected ||
+      Math.abs(projected[0] - translate[0] - (size * (lon + 180)) / 360) > tolerance ||
+      Math.abs(projected[1] - translate[1] - size * mercatorY(lat)) > tolerance
+    ) {
+      return undefined;
+    }
+  }
+  return { zoom: Math.log2(size / tileSize), size, translate };
+}
@@ -0,0 +1,432 @@
+import { Feature, Geometry, GeoJsonProperties, Position } from 'geojson';
+import { TileCoordinates } from './tile-math';
+
+// MVT geometry types and commands (Mapbox Vector Tile specification 2.1)
+const GEOMETRY_POINT = 1;
+const GEOMETRY_LINE = 2;
+const GEOMETRY_POLYGON = 3;
+const COMMAND_MOVE_TO = 1;
+const COMMAND_LINE_TO = 2;
+const COMMAND_CLOSE_PATH = 7;
+const DEFAULT_EXTENT = 4096;
+
+// Protobuf wire types
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_BYTES = 2;
+const WIRE_32BIT = 5;
+
+// Compression of PMTiles directories and tiles (brotli and zstd are not supported)
+export const COMPRESSION_UNKNOWN = 0;
+export const COMPRESSION_NONE = 1;
+export const COMPRESSION_GZIP = 2;
+
+/**
+ * Minimal protobuf reader: varints, length-delimited fields and fixed-size numbers.
+ * Varints are read with arithmetic rather than bit operations so values above 2³¹ survive.
+ */
+export class ProtobufReader {
+  private view: DataView;
+  pos = 0;
+
+  constructor(
+    private bytes: Uint8Array,
+    readonly end = bytes.length
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let shift = 1;
+    let byte: number;
+    do {
+      byte = this.bytes[this.pos++];
+      result += (byte & 0x7f) * shift;
+      shift *= 128;
+    } while (byte & 0x80);
+    return result;
+  }
+
+  /**
+   * Field number and wire type of the next field
+   */
+  tag(): [number, number] {
+    const tag = this.varint();
+    return [Math.floor(tag / 8), tag % 8];
+  }
+
+  /**
+   * Reader over the next length-delimited field
+   */
+  message(): ProtobufReader {
+    const length = this.varint();
+    const reader = new ProtobufReader(this.bytes, this.pos + length);
+    reader.pos = this.pos;
+    this.pos += length;
+    return reader;
+  }
+
+  string(): string {
+    const length = this.varint();
+    const text = new TextDecoder().decode(this.bytes.subarray(this.pos, this.pos + length));
+    this.pos += length;
+    return text;
+  }
+
+  float(): number {
+    const value = this.view.getFloat32(this.pos, true);
+    this.pos += 4;
+    return value;
+  }
+
+  double(): number {
+    const value = this.view.getFloat64(this.pos, true);
+    this.pos += 8;
+    return value;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === WIRE_VARINT) this.varint();
+    else if (wireType === WIRE_64BIT) this.pos += 8;
+    else if (wireType === WIRE_BYTES) this.pos += this.varint();
+    else if (wireType === WIRE_32BIT) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+}
+
+/**
+ * Decode a Mapbox Vector Tile into GeoJSON features in longitude/latitude. Each feature's
+ * layer name is stored in properties._layer. MVT winds polygon rings the way d3-geo expects
+ * (exterior rings clockwise), so they fill their inside in every projection.
+ */
+export function decodeVectorTile(buffer: ArrayBuffer, tile: TileCoordinates): Feature[] {
+  const reader = new ProtobufReader(new Uint8Array(buffer));
+  const features: Feature[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 3 && wireType === WIRE_BYTES) {
+      features.push(...decodeLayer(reader.message(), tile));
+    } else {
+      reader.skip(wireType);
+    }
+  }
+  return features;
+}
+
+interface RawFeature {
+  id?: number;
+  tags: number[];
+  type: number;
+  geometry: number[];
+}
+
+function decodeLayer(reader: ProtobufReader, tile: TileCoordinates): Feature[] {
+  let name = '';
+  let extent = DEFAULT_EXTENT;
+  const keys: string[] = [];
+  const values: unknown[] = [];
+  const raw: RawFeature[] = [];
+
+  // Features refer to keys and values by index, and fields may come in any order
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1) name = reader.string();
+    else if (field === 2) raw.push(decodeFeature(reader.message()));
+    else if (field === 3) keys.push(reader.string());
+    else if (field === 4) values.push(decodeValue(reader.message()));
+    else if (field === 5) extent = reader.varint();
+    else reader.skip(wireType);
+  }
+
+  const toLonLat = tileToLonLat(tile, extent);
+  const features: Feature[] = [];
+  for (const { id, tags, type, geometry } of raw) {
+    const decoded = decodeGeometry(type, geometry, toLonLat);
+    if (!decoded) continue;
+
+    const properties: GeoJsonProperties = { _layer: name };
+    for (let i = 0; i + 1 < tags.length; i += 2) {
+      properties[keys[tags[i]]] = values[tags[i + 1]];
+    }
+    const feature: Feature = { type: 'Feature', properties, geometry: decoded };
+    if (id !== undefined) feature.id = id;
+    features.push(feature);
+  }
+  return features;
+}
+
+function decodeFeature(reader: ProtobufReader): RawFeature {
+  const feature: RawFeature = { tags: [], type: 0, geometry: [] };
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1) feature.id = reader.varint();
+    else if (field === 2) feature.tags = packed(reader);
+    else if (field === 3) feature.type = reader.varint();
+    else if (field === 4) feature.geometry = packed(reader);
+    else reader.skip(wireType);
+  }
+  return feature;
+}
+
+function packed(reader: ProtobufReader): number[] {
+  const message = reader.message();
+  const values: number[] = [];
+  while (!message.done) values.push(message.varint());
+  return values;
+}
+
+function decodeValue(reader: ProtobufReader): unknown {
+  let value: unknown = null;
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1) value = reader.string();
+    else if (field === 2) value = reader.float();
+    else if (field === 3) value = reader.double();
+    else if (field === 4) value = int64(reader.varint());
+    else if (field === 5) value = reader.varint();
+    else if (field === 6) value = zigzag(reader.varint());
+    else if (field === 7) value = reader.varint() !== 0;
+    else reader.skip(wireType);
+  }
+  return value;
+}
+
+/**
+ * Negative int64 values are encoded as ten-byte two's complement varints
+ */
+function int64(value: number): number {
+  return value >= 2 ** 63 ? value - 2 ** 64 : value;
+}
+
+function zigzag(value: number): number {
+  return value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+}
+
+/**
+ * Run the geometry commands of a feature into GeoJSON geometry, or null when it has none
+ */
+function decodeGeometry(
+  type: number,
+  commands: number[],
+  toLonLat: (x: number, y: number) => Position
+): Geometry | null {
+  // Lines (and rings) in tile coordinates, one per MoveTo
+  const parts: [number, number][][] = [];
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < commands.length; ) {
+    const command = commands[i] & 0x7;
+    const count = Math.floor(commands[i++] / 8);
+    if (command === COMMAND_CLOSE_PATH) {
+      const part = parts[parts.length - 1];
+      if (part?.length) part.push(part[0]);
+      continue;
+    }
+    if (command !== COMMAND_MOVE_TO && command !== COMMAND_LINE_TO) return null;
+    for (let k = 0; k < count; k++) {
+      x += zigzag(commands[i++]);
+      y += zigzag(commands[i++]);
+      if (command === COMMAND_MOVE_TO) parts.push([]);
+      parts[parts.length - 1]?.push([x, y]);
+    }
+  }
+  if (!parts.length) return null;
+
+  const line = (part: [number, number][]) => part.map(([px, py]) => toLonLat(px, py));
+  if (type === GEOMETRY_POINT) {
+    const points = parts.map((part) => toLonLat(...part[0]));
+    return points.length === 1
+      ? { type: 'Point', coordinates: points[0] }
+      : { type: 'MultiPoint', coordinates: points };
+  }
+  if (type === GEOMETRY_LINE) {
+    const lines = parts.filter((part) => part.length > 1).map(line);
+    if (!lines.length) return null;
+    return lines.length === 1
+      ? { type: 'LineString', coordinates: lines[0] }
+      : { type: 'MultiLineString', coordinates: lines };
+  }
+  if (type !== GEOMETRY_POLYGON) return null;
+
+  // Exterior rings have a positive area in tile coordinates (y down, so clockwise with north
+  // up), holes a negative one: the winding d3-geo expects, kept as is
+  const polygons: Position[][][] = [];
+  for (const ring of parts) {
+    const area = ringArea(ring);
+    if (ring.length < 4 || area === 0) continue;
+    if (area > 0) {
+      polygons.push([line(ring)]);
+    } else {
+      polygons[polygons.length - 1]?.push(line(ring));
+    }
+  }
+  if (!polygons.length) return null;
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Signed area by the surveyor's formula
+ */
+function ringArea(ring: [number, number][]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[i][1] + ring[j][1]);
+  }
+  return sum / 2;
+}
+
+/**
+ * Convert tile coordinates (0 to extent across the tile) to [longitude, latitude]
+ */
+function tileToLonLat([z, x, y]: TileCoordinates, extent: number) {
+  const n = 2 ** z;
+  return (px: number, py: number): Position => {
+    const lon = ((x + px / extent) / n) * 360 - 180;
+    const mercatorY = Math.PI * (1 - (2 * (y + py / extent)) / n);
+    return [lon, (Math.atan(Math.sinh(mercatorY)) * 180) / Math.PI];
+  };
+}
+
+/**
+ * PMTiles tile id: tiles of lower zooms first, then the position along a Hilbert curve
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  let id = (4 ** z - 1) / 3;
+  let tx = x;
+  let ty = y;
+  for (let s = 2 ** (z - 1); s >= 1; s /= 2) {
+    const rx = (tx & s) > 0 ? 1 : 0;
+    const ry = (ty & s) > 0 ? 1 : 0;
+    id += s * s * ((3 * rx) ^ ry);
+    // Rotate the quadrant
+    if (ry === 0) {
+      if (rx === 1) {
+        tx = s - 1 - tx;
+        ty = s - 1 - ty;
+      }
+      [tx, ty] = [ty, tx];
+    }
+  }
+  return id;
+}
+
+/**
+ * The PMTiles v3 header fields used to find tiles
+ */
+export interface PmTilesHeader {
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  leafDirectoriesOffset: number;
+  tileDataOffset: number;
+  internalCompression: number; // COMPRESSION_*
+  tileCompression: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+// Length of the fixed PMTiles v3 header
+export const PMTILES_HEADER_LENGTH = 127;
+
+export function parsePmTilesHeader(buffer: ArrayBuffer): PmTilesHeader {
+  const view = new DataView(buffer);
+  const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 7));
+  if (magic !== 'PMTiles' || view.getUint8(7) !== 3) {
+    throw new Error('Not a PMTiles v3 archive');
+  }
+  const uint64 = (offset: number) => Number(view.getBigUint64(offset, true));
+  return {
+    rootDirectoryOffset: uint64(8),
+    rootDirectoryLength: uint64(16),
+    leafDirectoriesOffset: uint64(40),
+    tileDataOffset: uint64(56),
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+  };
+}
+
+/**
+ * A PMTiles directory entry: a run of tiles, or a leaf directory when runLength is 0
+ */
+export interface PmTilesEntry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+/**
+ * Decode a (decompressed) PMTiles directory: the entry count, then each column of the
+ * entries as varints, tile ids as deltas and offsets as 0 for "right after the previous"
+ */
+export function parsePmTilesDirectory(buffer: ArrayBuffer): PmTilesEntry[] {
+  const reader = new ProtobufReader(new Uint8Array(buffer));
+  const entries: PmTilesEntry[] = Array.from({ length: reader.varint() }, () => ({
+    tileId: 0,
+    offset: 0,
+    length: 0,
+    runLength: 0,
+  }));
+
+  let tileId = 0;
+  for (const entry of entries) {
+    tileId += reader.varint();
+    entry.tileId = tileId;
+  }
+  for (const entry of entries) entry.runLength = reader.varint();
+  for (const entry of entries) entry.length = reader.varint();
+  entries.forEach((entry, i) => {
+    const offset = reader.varint();
+    const previous = entries[i - 1];
+    entry.offset = offset === 0 && previous ? previous.offset + previous.length : offset - 1;
+  });
+  return entries;
+}
+
+/**
+ * The entry holding a tile id: a run of tiles containing it, or the leaf directory to search
+ */
+export function findPmTilesEntry(
+  entries: PmTilesEntry[],
+  tileId: number
+): PmTilesEntry | undefined {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (entries[middle].tileId <= tileId) low = middle + 1;
+    else high = middle - 1;
+  }
+
+  // high is now the last entry starting at or before the tile id
+  const entry = entries[high];
+  if (!entry) return undefined;
+  return entry.runLength === 0 || tileId < entry.tileId + entry.runLength ? entry : undefined;
+}
+
+/**
+ * Decompress a tile or directory. Unknown compression is sniffed for the gzip magic number,
+ * which covers tile servers and directories of gzipped .pbf files.
+ */
+export async function decompress(buffer: ArrayBuffer, compression: number): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(buffer);
+  const gzipped =
+    compression === COMPRESSION_GZIP ||
+    (compression === COMPRESSION_UNKNOWN && bytes[0] === 0x1f && bytes[1] === 0x8b);
+  if (gzipped) {
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return new Response(stream).arrayBuffer();
+  }
+  if (compression > COMPRESSION_GZIP) {
+    throw new Error(`Unsupported tile compression ${compression} (use gzip or none)`);
+  }
+  return buffer;
+}
@@ -0,0 +1,117 @@
+import { TileSource, VectorTileSource } from '../models/map.types';
+import {
+  COMPRESSION_UNKNOWN,
+  PMTILES_HEADER_LENGTH,
+  PmTilesEntry,
+  PmTilesHeader,
+  decompress,
+  findPmTilesEntry,
+  parsePmTilesDirectory,
+  parsePmTilesHeader,
+  zxyToTileId,
+} from './vector-tile-format';
+
+// Directories nest at most root → leaf → leaf → leaf (PMTiles v3)
+const MAX_DIRECTORY_DEPTH = 4;
+
+/**
+ * Tiles fetched from an XYZ URL template, e.g. a local tile server or a directory of .pbf
+ * files ('/tiles/{z}/{x}/{y}.pbf'). 404 and 204 mean the tile doesn't exist.
+ */
+export class XyzTileSource implements TileSource {
+  constructor(private url: string) {}
+
+  async tile(z: number, x: number, y: number): Promise<ArrayBuffer | undefined> {
+    const url = this.url
+      .replace('{z}', String(z))
+      .replace('{x}', String(x))
+      .replace('{y}', String(y));
+    const response = await fetch(url);
+    if (response.status === 404 || response.status === 204) return undefined;
+    if (!response.ok) {
+      throw new Error(`Could not load tile "${url}": ${response.status} ${response.statusText}`);
+    }
+    // Files gzipped on disk (tippecanoe's default) arrive without Content-Encoding
+    return decompress(await response.arrayBuffer(), COMPRESSION_UNKNOWN);
+  }
+}
+
+/**
+ * Tiles read from a PMTiles v3 archive: byte ranges of a URL (any server or dev server that
+ * honors Range requests) or slices of a local File/Blob. Directories are cached once read.
+ */
+export class PmTilesSource implements TileSource {
+  minZoom?: number;
+  maxZoom?: number;
+
+  private header?: Promise<PmTilesHeader>;
+  // Decoded directories by byte offset
+  private directories = new Map<number, Promise<PmTilesEntry[]>>();
+
+  constructor(private archive: string | Blob) {}
+
+  async tile(z: number, x: number, y: number): Promise<ArrayBuffer | undefined> {
+    const header = await (this.header ??= this.readHeader());
+    if (z < header.minZoom || z > header.maxZoom) return undefined;
+
+    const tileId = zxyToTileId(z, x, y);
+    let offset = header.rootDirectoryOffset;
+    let length = header.rootDirectoryLength;
+    for (let depth = 0; depth < MAX_DIRECTORY_DEPTH; depth++) {
+      const entry = findPmTilesEntry(await this.directory(header, offset, length), tileId);
+      if (!entry) return undefined;
+
+      if (entry.runLength > 0) {
+        const data = await this.read(header.tileDataOffset + entry.offset, entry.length);
+        return decompress(data, header.tileCompression);
+      }
+      offset = header.leafDirectoriesOffset + entry.offset;
+      length = entry.length;
+    }
+    return undefined;
+  }
+
+  private async readHeader(): Promise<PmTilesHeader> {
+    const header = parsePmTilesHeader(await this.read(0, PMTILES_HEADER_LENGTH));
+    this.minZoom = header.minZoom;
+    this.maxZoom = header.maxZoom;
+    return header;
+  }
+
+  private directory(header: PmTilesHeader, offset: number, length: number) {
+    let directory = this.directories.get(offset);
+    if (!directory) {
+      directory = this.read(offset, length)
+        .then((data) => decompress(data, header.internalCompression))
+        .then(parsePmTilesDirectory);
+      this.directories.set(offset, directory);
+    }
+    return directory;
+  }
+
+  private async read(offset: number, length: number): Promise<ArrayBuffer> {
+    if (typeof this.archive !== 'string') {
+      return this.archive.slice(offset, offset + length).arrayBuffer();
+    }
+
+    const response = await fetch(this.archive, {
+      headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Could not read "${this.archive}": ${response.status} ${response.statusText}`
+      );
+    }
+    const data = await response.arrayBuffer();
+    // A server ignoring the Range header sends the whole file
+    return response.status === 206 ? data : data.slice(offset, offset + length);
+  }
+}
+
+/**
+ * The TileSource for a layer's source option
+ */
+export function createTileSource(source: VectorTileSource): TileSource {
+  if ('tile' in source) return source;
+  return source.type === 'xyz' ? new XyzTileSource(source.url) : new PmTilesSource(source.url);
+}
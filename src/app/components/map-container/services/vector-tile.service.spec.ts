@@ -0,0 +1,195 @@
+import { TestBed } from '@angular/core/testing';
+import * as d3 from 'd3';
+import { Feature, Polygon } from 'geojson';
+import { MapLayer, TileError, TileSource } from '../models/map.types';
+import { AnimationScheduler, VirtualAnimationScheduler } from './animation-scheduler.service';
+import {
+  decodeVectorTile,
+  findPmTilesEntry,
+  parsePmTilesDirectory,
+  zxyToTileId,
+} from './vector-tile-format';
+import { VectorTileService } from './vector-tile.service';
+
+// Protobuf encoding, to build tiles for the tests
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  for (; value >= 0x80; value = Math.floor(value / 128)) bytes.push((value % 128) | 0x80);
+  return [...bytes, value];
+};
+const zigzag = (value: number) => (value < 0 ? -2 * value - 1 : 2 * value);
+const message = (field: number, bytes: number[]) => [
+  ...varint(field * 8 + 2),
+  ...varint(bytes.length),
+  ...bytes,
+];
+const text = (field: number, value: string) => message(field, [...new TextEncoder().encode(value)]);
+const packed = (field: number, values: number[]) => message(field, values.flatMap(varint));
+const uint = (field: number, value: number) => [...varint(field * 8), ...varint(value)];
+const command = (id: number, count: number) => id | (count << 3);
+const moves = (points: [number, number][]) => points.flatMap(([x, y]) => [zigzag(x), zigzag(y)]);
+
+/**
+ * A tile with a 'water' layer (a square with a square hole) and a 'roads' layer (one line)
+ */
+function encodeTile(): ArrayBuffer {
+  const square = [
+    command(1, 1),
+    ...moves([[0, 0]]),
+    command(2, 3),
+    ...moves([[4096, 0], [0, 4096], [-4096, 0]]),
+    command(7, 1),
+    // The hole runs the other way round, from the last point (0, 4096)
+    command(1, 1),
+    ...moves([[1024, -3072]]),
+    command(2, 3),
+    ...moves([[0, 2048], [2048, 0], [0, -2048]]),
+    command(7, 1),
+  ];
+  const water = [
+    ...text(1, 'water'),
+    ...message(2, [...uint(1, 7), ...packed(2, [0, 0, 1, 1]), ...uint(3, 3), ...packed(4, square)]),
+    ...text(3, 'name'),
+    ...text(3, 'depth'),
+    ...message(4, text(1, 'Lake')),
+    ...message(4, [...varint(6 * 8), ...varint(zigzag(-3))]),
+    ...uint(5, 4096),
+  ];
+  const line = [command(1, 1), ...moves([[0, 2048]]), command(2, 1), ...moves([[4096, 0]])];
+  const roads = [...text(1, 'roads'), ...message(2, [...uint(3, 2), ...packed(4, line)])];
+  return new Uint8Array([...message(3, water), ...message(3, roads)]).buffer;
+}
+
+describe('VectorTileService', () => {
+  let scheduler: VirtualAnimationScheduler;
+  let vectorTiles: VectorTileService;
+
+  beforeEach(() => {
+    scheduler = new VirtualAnimationScheduler();
+    TestBed.configureTestingModule({
+      providers: [{ provide: AnimationScheduler, useValue: scheduler }],
+    });
+    vectorTiles = TestBed.inject(VectorTileService);
+  });
+
+  it('should decode MVT features to longitude and latitude', () => {
+    // Tile 3/4/2 spans 0° to 45° east and about 41° to 66.5° north
+    const [water, road] = decodeVectorTile(encodeTile(), [3, 4, 2]);
+
+    expect(water.id).toBe(7);
+    expect(water.properties).toEqual({ _layer: 'water', name: 'Lake', depth: -3 });
+    const [[west, south], [east]] = d3.geoBounds(water);
+    expect([west, east, south]).toEqual([
+      expect.closeTo(0, 6),
+      expect.closeTo(45, 6),
+      expect.closeTo(40.98, 2),
+    ]);
+    // Wound for d3-geo: the small side is inside, the hole is not
+    expect((water.geometry as Polygon).coordinates).toHaveLength(2);
+    expect(d3.geoArea(water)).toBeLessThan(0.2);
+    expect(d3.geoContains(water, [2, 45])).toBe(true);
+    expect(d3.geoContains(water, [22.5, 55])).toBe(false);
+
+    expect(road.properties).toEqual({ _layer: 'roads' });
+    expect(road.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0, expect.closeTo(55.78, 2)],
+        [45, expect.closeTo(55.78, 2)],
+      ],
+    });
+  });
+
+  it('should find tiles in PMTiles directories', () => {
+    expect([
+      zxyToTileId(0, 0, 0),
+      zxyToTileId(1, 0, 0),
+      zxyToTileId(1, 0, 1),
+      zxyToTileId(1, 1, 1),
+      zxyToTileId(1, 1, 0),
+      zxyToTileId(2, 0, 0),
+    ]).toEqual([0, 1, 2, 3, 4, 5]);
+
+    // Ids 0, 5-7 and a leaf directory from 20; the second run follows the first in the file
+    const directory = [
+      ...[3, 0, 5, 15],
+      ...[1, 3, 0],
+      ...[10, 20, 50],
+      ...[1, 0, 101],
+    ].flatMap(varint);
+    const entries = parsePmTilesDirectory(new Uint8Array(directory).buffer);
+    expect(entries.map((entry) => entry.offset)).toEqual([0, 10, 100]);
+    expect([0, 1, 6, 8, 25].map((id) => findPmTilesEntry(entries, id)?.tileId)).toEqual([
+      0,
+      undefined,
+      5,
+      undefined,
+      20,
+    ]);
+  });
+
+  it('should draw loaded tiles and stand in for missing ones without waiting', async () => {
+    const requested: string[] = [];
+    const source: TileSource = {
+      tile: async (z, x, y) => {
+        requested.push(`${z}/${x}/${y}`);
+        return z === 0 ? encodeTile() : undefined;
+      },
+    };
+    const world = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+    const layer: MapLayer = {
+      id: 'basemap',
+      type: 'vector-tiles',
+      data: { type: 'FeatureCollection', features: [] },
+      tiles: { source, maxZoom: 0, layers: ['water'] },
+    };
+
+    // Nothing loaded yet: nothing drawn, and the tile is requested
+    expect(vectorTiles.features(layer, world, [960, 600]).features).toEqual([]);
+    expect(requested).toEqual(['0/0/0']);
+
+    let loaded = false;
+    vectorTiles.onTileLoad.subscribe(() => (loaded = true));
+    await new Promise((resolve) => setTimeout(resolve));
+    scheduler.advance(20);
+    expect(loaded).toBe(true);
+    const features = vectorTiles.features(layer, world, [960, 600]).features;
+    expect(features.map((feature: Feature) => feature.properties?.['_layer'])).toEqual(['water']);
+
+    // Zoomed in, the world tile stands in until the detailed tiles arrive
+    const europe = d3.geoEquirectangular().scale(1200).rotate([-20, -50]).translate([480, 300]);
+    const detailed: MapLayer = { ...layer, tiles: { source, maxZoom: 3 } };
+    expect(vectorTiles.tilesInView(europe, [960, 600], detailed.tiles!)).toContainEqual([3, 4, 2]);
+    expect(vectorTiles.features(detailed, europe, [960, 600]).features).toHaveLength(2);
+    expect(requested).toContain('3/4/2');
+  });
+
+  it('should report tiles that fail to load and not request them again', async () => {
+    let requests = 0;
+    const failure = new Error('404');
+    const errors: TileError[] = [];
+    const layer: MapLayer = {
+      id: 'basemap',
+      type: 'vector-tiles',
+      data: { type: 'FeatureCollection', features: [] },
+      tiles: {
+        source: {
+          tile: async () => {
+            requests++;
+            throw failure;
+          },
+        },
+        maxZoom: 0,
+        onError: (error) => errors.push(error),
+      },
+    };
+    const world = d3.geoEquirectangular().fitSize([960, 600], { type: 'Sphere' });
+
+    vectorTiles.features(layer, world, [960, 600]);
+    await new Promise((resolve) => setTimeout(resolve));
+    expect(errors).toEqual([{ error: failure, tile: [0, 0, 0] }]);
+
+    expect(vectorTiles.features(layer, world, [960, 600]).features).toEqual([]);
+    expect(requests).toBe(1);
+  });
+});
@@ -0,0 +1,232 @@
+import { Injectable, inject } from '@angular/core';
+import { GeoProjection } from 'd3-geo';
+import { Feature, FeatureCollection } from 'geojson';
+import { Subject } from 'rxjs';
+import {
+  MapLayer,
+  TileError,
+  TileSource,
+  VectorTileOptions,
+  VectorTileSource,
+} from '../models/map.types';
+import { AnimationScheduler } from './animation-scheduler.service';
+import { HitTestService } from './hit-test.service';
+import { EARTH_RADIUS_KM, MapScaleService } from './map-scale.service';
+import { TileCoordinates, tileAt } from './tile-math';
+import { decodeVectorTile } from './vector-tile-format';
+import { createTileSource } from './vector-tile-source';
+
+const DEFAULT_MIN_ZOOM = 0;
+const DEFAULT_MAX_ZOOM = 14;
+const DEFAULT_TILE_SIZE = 512;
+const DEFAULT_CACHE_SIZE = 256;
+// Screen distance between the viewport points inverted to find the tiles in view (px)
+const SAMPLE_STEP = 32;
+// Tiles drawn at once; the zoom drops until the view needs no more
+const MAX_TILES = 64;
+const EQUATOR_KM = 2 * Math.PI * EARTH_RADIUS_KM;
+
+/**
+ * Decoded tiles of one source, least recently used first
+ */
+interface TileCache {
+  source: TileSource;
+  tiles: Map<string, Feature[]>;
+  loading: Set<string>;
+  onError?: (error: TileError) => void; // of the layer that last drew the source
+}
+
+const EMPTY: FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+/**
+ * Vector Tile Service
+ * Supplies the features of 'vector-tiles' layers. Web Mercator tiles are chosen for the
+ * current view in any projection by inverting points across the viewport, decoded to lon/lat
+ * GeoJSON and kept in an LRU cache, so the renderer draws them through the active GeoPath like
+ * any other layer. Missing tiles never hold up a frame: they load in the background while
+ * loaded ancestor (or child) tiles stand in, and onTileLoad asks for a redraw once per frame.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class VectorTileService {
+  private hitTester = inject(HitTestService);
+  private mapScale = inject(MapScaleService);
+  private scheduler = inject(AnimationScheduler);
+
+  // Emitted (at most once per frame) when tiles have loaded
+  public onTileLoad = new Subject<void>();
+
+  private caches = new WeakMap<VectorTileSource, TileCache>();
+  // Last features returned per layer options, reused while the same tiles are shown
+  private collections = new WeakMap<VectorTileOptions, { key: string; data: FeatureCollection }>();
+  private notifyFrame?: number;
+
+  /**
+   * Features of a layer's tiles covering the viewport [width, height]. Returns at once with
+   * what is loaded, requesting missing tiles.
+   */
+  features(
+    layer: MapLayer,
+    projection: GeoProjection,
+    viewport: [number, number]
+  ): FeatureCollection {
+    const options = layer.tiles;
+    if (!options) return EMPTY;
+
+    const cache = this.cache(options.source);
+    cache.onError = options.onError;
+    const zooms = {
+      ...options,
+      minZoom: options.minZoom ?? cache.source.minZoom,
+      maxZoom: options.maxZoom ?? cache.source.maxZoom,
+    };
+    const shown = new Map<string, TileCoordinates>();
+    for (const tile of this.tilesInView(projection, viewport, zooms)) {
+      const key = tileKey(tile);
+      if (cache.tiles.has(key)) {
+        // Most recently used last
+        const features = cache.tiles.get(key)!;
+        cache.tiles.delete(key);
+        cache.tiles.set(key, features);
+        shown.set(key, tile);
+      } else {
+        this.load(cache, tile, options.cacheSize ?? DEFAULT_CACHE_SIZE);
+        for (const standIn of standIns(cache, tile)) shown.set(tileKey(standIn), standIn);
+      }
+    }
+
+    // Lower zooms first, so detailed tiles draw over stand-ins
+    const keys = [...shown.keys()].sort((a, b) => shown.get(a)![0] - shown.get(b)![0]);
+    const key = keys.join(' ');
+    const previous = this.collections.get(options);
+    if (previous?.key === key) return previous.data;
+
+    const layers = options.layers && new Set(options.layers);
+    const features = keys
+      .flatMap((tile) => cache.tiles.get(tile) ?? [])
+      .filter((feature) => !layers || layers.has(feature.properties?.['_layer']));
+    const data: FeatureCollection = { type: 'FeatureCollection', features };
+    this.collections.set(options, { key, data });
+    return data;
+  }
+
+  /**
+   * Tiles covering the viewport, at the zoom whose tile pixels match screen pixels at the
+   * center (capped by maxZoom, past which tiles are overzoomed). Also picks the tiles of
+   * raster tile layers.
+   */
+  tilesInView(
+    projection: GeoProjection,
+    [width, height]: [number, number],
+    options: Pick<VectorTileOptions, 'minZoom' | 'maxZoom' | 'tileSize'>
+  ): TileCoordinates[] {
+    const minZoom = options.minZoom ?? DEFAULT_MIN_ZOOM;
+    const maxZoom = options.maxZoom ?? DEFAULT_MAX_ZOOM;
+
+    // Points across the viewport and along its edges, off-map ones dropped
+    const points: [number, number][] = [];
+    for (const x of steps(width)) {
+      for (const y of steps(height)) {
+        const point = this.hitTester.invert(projection, [x, y]);
+        if (point) points.push(point);
+      }
+    }
+    if (!points.length) return [];
+
+    // A Web Mercator tile spans the parallel's circumference / 2^z in tileSize px
+    const center = this.hitTester.invert(projection, [width / 2, height / 2]) ?? points[0];
+    const resolution = this.mapScale.groundResolution(projection, [width / 2, height / 2]);
+    const parallel = EQUATOR_KM * Math.max(Math.cos((center[1] * Math.PI) / 180), 0.01);
+    const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+    let zoom = resolution ? Math.round(Math.log2(parallel / (tileSize * resolution))) : minZoom;
+    zoom = Math.min(Math.max(zoom, minZoom), maxZoom);
+
+    for (; ; zoom--) {
+      const tiles = new Map<string, TileCoordinates>();
+      for (const point of points) {
+        const tile = tileAt(point, zoom);
+        tiles.set(tileKey(tile), tile);
+      }
+      if (tiles.size <= MAX_TILES || zoom <= minZoom) return [...tiles.values()];
+    }
+  }
+
+  private cache(source: VectorTileSource): TileCache {
+    let cache = this.caches.get(source);
+    if (!cache) {
+      cache = { source: createTileSource(source), tiles: new Map(), loading: new Set() };
+      this.caches.set(source, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Fetch and decode a tile in the background. Failed tiles are reported to the layer's
+   * onError and cached empty, so a bad tile is not requested again on every frame.
+   */
+  private load(cache: TileCache, tile: TileCoordinates, cacheSize: number): void {
+    const key = tileKey(tile);
+    if (cache.loading.has(key)) return;
+    cache.loading.add(key);
+
+    cache.source
+      .tile(...tile)
+      .then((buffer) => (buffer ? decodeVectorTile(buffer, tile) : []))
+      .catch((error): Feature[] => {
+        cache.onError?.({ error, tile });
+        return [];
+      })
+      .then((features) => {
+        cache.loading.delete(key);
+        cache.tiles.set(key, features);
+        for (const oldest of cache.tiles.keys()) {
+          if (cache.tiles.size <= cacheSize) break;
+          cache.tiles.delete(oldest);
+        }
+        this.notify();
+      });
+  }
+
+  private notify(): void {
+    if (this.notifyFrame !== undefined) return;
+    this.notifyFrame = this.scheduler.requestFrame(() => {
+      this.notifyFrame = undefined;
+      this.onTileLoad.next();
+    });
+  }
+}
+
+function tileKey([z, x, y]: TileCoordinates): string {
+  return `${z}/${x}/${y}`;
+}
+
+/**
+ * Loaded tiles to draw in place of a missing one: the nearest loaded ancestor, else the
+ * loaded tiles one zoom below (e.g. while zooming out)
+ */
+function standIns(cache: TileCache, [z, x, y]: TileCoordinates): TileCoordinates[] {
+  for (let parent = z - 1; parent >= 0; parent--) {
+    const shift = z - parent;
+    const tile: TileCoordinates = [parent, x >> shift, y >> shift];
+    if (cache.tiles.has(tileKey(tile))) return [tile];
+  }
+
+  const children: TileCoordinates[] = [
+    [z + 1, 2 * x, 2 * y],
+    [z + 1, 2 * x + 1, 2 * y],
+    [z + 1, 2 * x, 2 * y + 1],
+    [z + 1, 2 * x + 1, 2 * y + 1],
+  ];
+  return children.filter((child) => cache.tiles.has(tileKey(child)));
+}
+
+/**
+ * 0, step, 2 step… up to and including the end
+ */
+function steps(end: number): number[] {
+  const values: number[] = [];
+  for (let value = 0; value < end; value += SAMPLE_STEP) values.push(value);
+  values.push(end);
+  return values;
+}
@@ -0,0 +1,9 @@
+import { Feature, FeatureCollection } from 'geojson';
+
+/**
+ * A FeatureCollection of the given features (test data)
+ */
+export const collection = (...features: Feature[]): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features,
+});